@@ -2,6 +2,7 @@ using System;
 using System.Collections.Generic;
 using System.Linq;
 using UnityEditor;
+using UnityEditor.Compilation;
 using UnityEngine;
 
 namespace Plugins.GamePilot.Editor.MCP
@@ -26,16 +27,33 @@ namespace Plugins.GamePilot.Editor.MCP
         private readonly int maxLogBufferSize = 1000;
         private bool isLoggingEnabled = true;
         
+        // Raised for every captured log entry so it can be forwarded to the server
+        public event Action<LogEntry> OnLogEntry;
+        
         public MCPDataCollector()
         {
             // Start capturing logs
             Application.logMessageReceived += HandleLogMessage;
+            CompilationPipeline.assemblyCompilationFinished += HandleAssemblyCompilationFinished;
         }
         
         public void Dispose()
         {
             // Unsubscribe to prevent memory leaks
             Application.logMessageReceived -= HandleLogMessage;
+            CompilationPipeline.assemblyCompilationFinished -= HandleAssemblyCompilationFinished;
+        }
+        
+        // Compiler errors and warnings go to the console without passing through
+        // Application.logMessageReceived, so capture them from the compilation pipeline.
+        // The message is already in the console format: "Assets/Foo.cs(12,5): error CS0103: ..."
+        private void HandleAssemblyCompilationFinished(string assemblyPath, CompilerMessage[] messages)
+        {
+            foreach (var message in messages)
+            {
+                HandleLogMessage(message.message, string.Empty,
+                    message.type == CompilerMessageType.Error ? LogType.Error : LogType.Warning);
+            }
         }
         
         private void HandleLogMessage(string message, string stackTrace, LogType type)
@@ -58,6 +76,8 @@ namespace Plugins.GamePilot.Editor.MCP
                     logBuffer.Dequeue();
                 }
             }
+            
+            OnLogEntry?.Invoke(logEntry);
         }
         
         public bool IsLoggingEnabled
@@ -93,14 +113,23 @@ namespace Plugins.GamePilot.Editor.MCP
             {
                 ActiveGameObjects = GetActiveGameObjects(),
                 SelectedObjects = GetSelectedObjects(),
-                PlayModeState = EditorApplication.isPlaying ? "Playing" : "Stopped",
+                SelectedInstanceIDs = GetSelectedInstanceIDs(),
+                PlayModeState = GetPlayModeState(),
                 SceneHierarchy = GetSceneHierarchy(),
+                IsCompiling = EditorApplication.isCompiling,
+                IsUpdating = EditorApplication.isUpdating,
                 Timestamp = DateTime.UtcNow
             };
             
             return state;
         }
         
+        private string GetPlayModeState()
+        {
+            if (!EditorApplication.isPlaying) return "Stopped";
+            return EditorApplication.isPaused ? "Paused" : "Playing";
+        }
+        
         private string[] GetActiveGameObjects()
         {
             try
@@ -128,6 +157,44 @@ namespace Plugins.GamePilot.Editor.MCP
             }
         }
         
+        private int[] GetSelectedInstanceIDs()
+        {
+            try
+            {
+                return Selection.gameObjects.Where(o => o != null).Select(obj => obj.GetInstanceID()).ToArray();
+            }
+            catch (Exception ex)
+            {
+                Debug.LogError($"[MCP] Error getting selected instance IDs: {ex.Message}");
+                return new int[0];
+            }
+        }
+        
+        // Find a GameObject by its hierarchy path (e.g. "Root/Child") in any loaded scene, including inactive objects
+        public GameObject FindGameObjectByPath(string path)
+        {
+            if (string.IsNullOrEmpty(path)) return null;
+            
+            string[] parts = path.Trim('/').Split(new[] { '/' }, 2);
+            
+            for (int i = 0; i < UnityEngine.SceneManagement.SceneManager.sceneCount; i++)
+            {
+                var scene = UnityEngine.SceneManagement.SceneManager.GetSceneAt(i);
+                if (!scene.isLoaded) continue;
+                
+                foreach (var root in scene.GetRootGameObjects())
+                {
+                    if (root == null || root.name != parts[0]) continue;
+                    if (parts.Length == 1) return root;
+                    
+                    var child = root.transform.Find(parts[1]);
+                    if (child != null) return child.gameObject;
+                }
+            }
+            
+            return null;
+        }
+        
         private List<MCPGameObjectInfo> GetSceneHierarchy()
         {
             var hierarchy = new List<MCPGameObjectInfo>();
@@ -1,5 +1,6 @@
 using System;
 using UnityEditor;
+using UnityEditor.Compilation;
 using UnityEngine;
 
 namespace Plugins.GamePilot.Editor.MCP
@@ -46,6 +47,7 @@ namespace Plugins.GamePilot.Editor.MCP
                 connectionManager.OnConnected += OnConnected;
                 connectionManager.OnDisconnected += OnDisconnected;
                 connectionManager.OnError += OnError;
+                dataCollector.OnLogEntry += OnLogEntry;
                 
                 // Start connection
                 connectionManager.Connect();
@@ -53,6 +55,14 @@ namespace Plugins.GamePilot.Editor.MCP
                 // Register update for connection checking only
                 EditorApplication.update += Update;
                 
+                // Let the server know as soon as play mode changes
+                EditorApplication.playModeStateChanged += OnPlayModeStateChanged;
+                EditorApplication.pauseStateChanged += OnPauseStateChanged;
+                
+                // and when scripts start or finish compiling, for wait_for_compilation
+                CompilationPipeline.compilationStarted += OnCompilationStateChanged;
+                CompilationPipeline.compilationFinished += OnCompilationStateChanged;
+                
                 isInitialized = true;
                 MCPLogger.Log(ComponentName, "Model Context Protocol system initialized successfully");
             }
@@ -87,6 +97,72 @@ namespace Plugins.GamePilot.Editor.MCP
             }
         }
 
+        private static async void OnLogEntry(LogEntry logEntry)
+        {
+            try
+            {
+                // Skip the plugin's own messages - they are noise for the server and
+                // a failed send would otherwise log an error that is forwarded again
+                if (!IsConnected || logEntry.Message == null || logEntry.Message.StartsWith("[MCP]"))
+                    return;
+                
+                await messageSender.SendLogEntryAsync(logEntry);
+            }
+            catch (Exception ex)
+            {
+                MCPLogger.LogException(ComponentName, ex);
+            }
+        }
+        
+        private static async void OnPlayModeStateChanged(PlayModeStateChange change)
+        {
+            // Only report settled states, the transitional ones are immediately superseded
+            if (change != PlayModeStateChange.EnteredPlayMode && change != PlayModeStateChange.EnteredEditMode)
+                return;
+            
+            try
+            {
+                if (messageHandler != null && IsConnected)
+                {
+                    await messageHandler.SendEditorStateUpdateAsync();
+                }
+            }
+            catch (Exception ex)
+            {
+                MCPLogger.LogException(ComponentName, ex);
+            }
+        }
+        
+        private static async void OnPauseStateChanged(PauseState state)
+        {
+            try
+            {
+                if (messageHandler != null && IsConnected)
+                {
+                    await messageHandler.SendEditorStateUpdateAsync();
+                }
+            }
+            catch (Exception ex)
+            {
+                MCPLogger.LogException(ComponentName, ex);
+            }
+        }
+
+        private static async void OnCompilationStateChanged(object context)
+        {
+            try
+            {
+                if (messageHandler != null && IsConnected)
+                {
+                    await messageHandler.SendEditorStateUpdateAsync();
+                }
+            }
+            catch (Exception ex)
+            {
+                MCPLogger.LogException(ComponentName, ex);
+            }
+        }
+
         private static void OnError(string errorMessage)
         {
             MCPLogger.LogError(ComponentName, $"Connection error: {errorMessage}");
@@ -132,12 +208,20 @@ namespace Plugins.GamePilot.Editor.MCP
                 
                 // Unregister update callbacks
                 EditorApplication.update -= Update;
+                EditorApplication.playModeStateChanged -= OnPlayModeStateChanged;
+                EditorApplication.pauseStateChanged -= OnPauseStateChanged;
+                CompilationPipeline.compilationStarted -= OnCompilationStateChanged;
+                CompilationPipeline.compilationFinished -= OnCompilationStateChanged;
                 
                 // Disconnect
                 connectionManager?.Disconnect();
                 
                 // Cleanup
-                dataCollector?.Dispose();
+                if (dataCollector != null)
+                {
+                    dataCollector.OnLogEntry -= OnLogEntry;
+                    dataCollector.Dispose();
+                }
                 
                 isInitialized = false;
                 MCPLogger.Log(ComponentName, "System shutdown completed");
@@ -40,7 +40,7 @@ namespace Plugins.GamePilot.Editor.MCP
                         break;
                     
                     case "togglePlayMode":
-                        await HandleTogglePlayModeAsync();
+                        await HandleTogglePlayModeAsync(message.Data);
                         break;
                     
                     case "executeEditorCommand":
@@ -71,6 +71,18 @@ namespace Plugins.GamePilot.Editor.MCP
                         await HandlePingAsync(message.Data);
                         break;
                         
+                    case "refreshAssetDatabase":
+                        HandleRefreshAssetDatabase();
+                        break;
+                        
+                    case "getBuildScenes":
+                        await messageSender.SendBuildScenesAsync(message.Data?["requestId"]?.ToString(), null);
+                        break;
+                        
+                    case "setBuildScenes":
+                        await HandleSetBuildScenesAsync(message.Data);
+                        break;
+                        
                     default:
                         Debug.LogWarning($"[MCP] Unknown message type: {message.Type}");
                         break;
@@ -116,33 +128,64 @@ namespace Plugins.GamePilot.Editor.MCP
         {
             try
             {
-                string objectPath = data["path"]?.ToString();
                 string requestId = data["requestId"]?.ToString();
                 
-                if (string.IsNullOrEmpty(objectPath)) return;
+                // Collect the requested objects from the single path (original protocol), paths and instance IDs
+                var paths = new List<string>();
+                string objectPath = data["path"]?.ToString();
+                if (!string.IsNullOrEmpty(objectPath)) paths.Add(objectPath);
+                if (data["paths"] != null && data["paths"].Type == JTokenType.Array)
+                {
+                    paths.AddRange(data["paths"].ToObject<string[]>());
+                }
                 
-                var obj = GameObject.Find(objectPath);
-                if (obj != null)
+                int[] instanceIDs = data["instanceIDs"] != null && data["instanceIDs"].Type == JTokenType.Array
+                    ? data["instanceIDs"].ToObject<int[]>()
+                    : new int[0];
+                
+                // Nothing to select and no explicit (possibly empty) list given - keep the selection as is
+                if (paths.Count == 0 && data["paths"] == null && data["instanceIDs"] == null) return;
+                
+                var targets = new List<GameObject>();
+                foreach (var id in instanceIDs)
                 {
-                    Selection.activeGameObject = obj;
-                    Debug.Log($"[MCP] Selected GameObject: {objectPath}");
-                    
-                    // If requestId was provided, send back object details
-                    if (!string.IsNullOrEmpty(requestId))
-                    {
-                        // Use the new method to send details for a single GameObject
-                        await messageSender.SendGameObjectDetailsAsync(requestId, obj);
-                    }
+                    var obj = EditorUtility.InstanceIDToObject(id) as GameObject;
+                    if (obj != null) targets.Add(obj);
+                    else Debug.LogWarning($"[MCP] GameObject not found for instance ID: {id}");
                 }
-                else
+                foreach (var path in paths)
+                {
+                    var obj = dataCollector.FindGameObjectByPath(path);
+                    if (obj != null) targets.Add(obj);
+                    else Debug.LogWarning($"[MCP] GameObject not found: {path}");
+                }
+                targets = targets.Distinct().ToList();
+                
+                Selection.objects = targets.Cast<UnityEngine.Object>().ToArray();
+                Debug.Log($"[MCP] Selected {targets.Count} GameObject(s)");
+                
+                // Help the user find what was selected
+                if (targets.Count > 0)
                 {
-                    Debug.LogWarning($"[MCP] GameObject not found: {objectPath}");
+                    if (data["ping"]?.Value<bool>() ?? false)
+                    {
+                        EditorGUIUtility.PingObject(targets[0]);
+                    }
                     
-                    if (!string.IsNullOrEmpty(requestId))
+                    if ((data["frame"]?.Value<bool>() ?? false) && SceneView.lastActiveSceneView != null)
                     {
-                        await messageSender.SendErrorMessageAsync("OBJECT_NOT_FOUND", $"GameObject not found: {objectPath}");
+                        SceneView.lastActiveSceneView.FrameSelected();
                     }
                 }
+                
+                // If requestId was provided, send back details of what ended up selected
+                if (!string.IsNullOrEmpty(requestId))
+                {
+                    var details = dataCollector.GetGameObjectsInfo(
+                        targets.Select(t => t.GetInstanceID()).ToArray(),
+                        GameObjectInfoDetail.BasicInfo);
+                    await messageSender.SendGameObjectsDetailsAsync(requestId, details);
+                }
             }
             catch (Exception ex)
             {
@@ -150,16 +193,38 @@ namespace Plugins.GamePilot.Editor.MCP
             }
         }
         
-        private async Task HandleTogglePlayModeAsync()
+        private async Task HandleTogglePlayModeAsync(JToken data)
         {
             try
             {
-                EditorApplication.isPlaying = !EditorApplication.isPlaying;
-                Debug.Log($"[MCP] Toggled play mode to: {EditorApplication.isPlaying}");
+                // Without an action this keeps the original toggle behaviour
+                string action = data?["action"]?.ToString() ?? "toggle";
+                
+                switch (action)
+                {
+                    case "enter":
+                        EditorApplication.isPlaying = true;
+                        break;
+                    case "exit":
+                        EditorApplication.isPlaying = false;
+                        break;
+                    case "pause":
+                        EditorApplication.isPaused = true;
+                        break;
+                    case "resume":
+                        EditorApplication.isPaused = false;
+                        break;
+                    case "step":
+                        EditorApplication.Step();
+                        break;
+                    default:
+                        EditorApplication.isPlaying = !EditorApplication.isPlaying;
+                        break;
+                }
+                Debug.Log($"[MCP] Play mode action '{action}' applied, isPlaying: {EditorApplication.isPlaying}, isPaused: {EditorApplication.isPaused}");
                 
                 // Send updated editor state after toggling play mode
-                var editorState = dataCollector.GetEditorState();
-                await messageSender.SendEditorStateAsync(editorState);
+                await SendEditorStateUpdateAsync();
             }
             catch (Exception ex)
             {
@@ -167,12 +232,70 @@ namespace Plugins.GamePilot.Editor.MCP
             }
         }
         
+        // The server moved, renamed or deleted assets on disk - import the changes
+        private void HandleRefreshAssetDatabase()
+        {
+            try
+            {
+                AssetDatabase.Refresh();
+                Debug.Log("[MCP] Asset database refreshed");
+            }
+            catch (Exception ex)
+            {
+                Debug.LogError($"[MCP] Error refreshing asset database: {ex.Message}");
+            }
+        }
+        
+        private async Task HandleSetBuildScenesAsync(JToken data)
+        {
+            string requestId = data["requestId"]?.ToString();
+            try
+            {
+                var scenes = new List<EditorBuildSettingsScene>();
+                foreach (var scene in data["scenes"] ?? new JArray())
+                {
+                    string scenePath = scene["path"]?.ToString();
+                    bool enabled = scene["enabled"]?.Value<bool>() ?? true;
+                    
+                    // A known GUID keeps pointing at the scene if it has moved since the list was read
+                    string guid = scene["guid"]?.ToString();
+                    if (string.IsNullOrEmpty(guid) || string.IsNullOrEmpty(AssetDatabase.GUIDToAssetPath(guid)))
+                    {
+                        guid = AssetDatabase.AssetPathToGUID(scenePath);
+                    }
+                    
+                    // Scenes written to disk since the last refresh have no GUID until they are imported
+                    if (string.IsNullOrEmpty(guid) && File.Exists(scenePath))
+                    {
+                        AssetDatabase.ImportAsset(scenePath);
+                        guid = AssetDatabase.AssetPathToGUID(scenePath);
+                    }
+                    
+                    scenes.Add(string.IsNullOrEmpty(guid)
+                        ? new EditorBuildSettingsScene(scenePath, enabled)
+                        : new EditorBuildSettingsScene(new GUID(guid), enabled));
+                }
+                
+                EditorBuildSettings.scenes = scenes.ToArray();
+                // Write ProjectSettings/EditorBuildSettings.asset now rather than on the next project save
+                AssetDatabase.SaveAssets();
+                Debug.Log($"[MCP] Build scene list set to {scenes.Count} scene(s)");
+                
+                await messageSender.SendBuildScenesAsync(requestId, null);
+            }
+            catch (Exception ex)
+            {
+                Debug.LogError($"[MCP] Error setting build scenes: {ex.Message}");
+                await messageSender.SendBuildScenesAsync(requestId, ex.Message);
+            }
+        }
+        
         private async Task HandleExecuteCommandAsync(JToken data)
         {
             try
             {
-                // Support both old and new parameter naming
-                string commandId = data["commandId"]?.ToString() ?? data["id"]?.ToString() ?? Guid.NewGuid().ToString();
+                // Support both old and new parameter naming - the server correlates results by requestId
+                string commandId = data["requestId"]?.ToString() ?? data["commandId"]?.ToString() ?? data["id"]?.ToString() ?? Guid.NewGuid().ToString();
                 string code = data["code"]?.ToString();
                 
                 if (string.IsNullOrEmpty(code))
@@ -220,6 +343,19 @@ namespace Plugins.GamePilot.Editor.MCP
             }
         }
         
+        // Push the current editor state to the server, e.g. after a play mode change
+        public async Task SendEditorStateUpdateAsync()
+        {
+            try
+            {
+                await messageSender.SendEditorStateAsync(GetEnhancedEditorState());
+            }
+            catch (Exception ex)
+            {
+                Debug.LogError($"[MCP] Error sending editor state update: {ex.Message}");
+            }
+        }
+        
         // New method to get enhanced editor state with more project information
         private MCPEditorState GetEnhancedEditorState()
         {
@@ -246,6 +382,9 @@ namespace Plugins.GamePilot.Editor.MCP
                 // Add project name
                 state.ProjectName = Application.productName;
                 
+                // Add project root path so the server can tell editors apart
+                state.ProjectPath = Path.GetDirectoryName(Application.dataPath);
+                
                 // Add graphics API info
                 state.GraphicsDeviceType = SystemInfo.graphicsDeviceType.ToString();
                 
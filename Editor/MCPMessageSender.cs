@@ -2,6 +2,7 @@ using System;
 using System.Collections.Generic;
 using System.Threading.Tasks;
 using Newtonsoft.Json;
+using UnityEditor;
 using UnityEngine;
 using System.Linq;
 
@@ -79,6 +80,7 @@ namespace Plugins.GamePilot.Editor.MCP
                     type = "commandResult",
                     data = new
                     {
+                        requestId = commandId,
                         commandId,
                         result = result,
                         logs = logs ?? Array.Empty<string>(),
@@ -203,6 +205,38 @@ namespace Plugins.GamePilot.Editor.MCP
             }
         }
         
+        // The editor's build scene list, after a getBuildScenes or setBuildScenes request
+        public async Task SendBuildScenesAsync(string requestId, string error)
+        {
+            if (!connectionManager.IsConnected) return;
+            
+            try
+            {
+                var message = JsonConvert.SerializeObject(new
+                {
+                    type = "buildScenes",
+                    data = new
+                    {
+                        requestId,
+                        buildScenes = EditorBuildSettings.scenes.Select(scene => new
+                        {
+                            path = scene.path,
+                            enabled = scene.enabled,
+                            guid = scene.guid.ToString()
+                        }).ToArray(),
+                        error,
+                        timestamp = DateTime.UtcNow
+                    }
+                });
+                
+                await connectionManager.SendMessageAsync(message);
+            }
+            catch (Exception ex)
+            {
+                Debug.LogError($"[MCP] Error sending build scenes: {ex.Message}");
+            }
+        }
+        
         // Add new method to send pong message back to the server
         public async Task SendPongAsync()
         {
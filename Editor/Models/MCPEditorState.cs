@@ -13,6 +13,9 @@ namespace Plugins.GamePilot.Editor.MCP
         [JsonProperty("selectedObjects")]
         public string[] SelectedObjects { get; set; } = new string[0];
         
+        [JsonProperty("selectedInstanceIDs")]
+        public int[] SelectedInstanceIDs { get; set; } = new int[0];
+        
         [JsonProperty("playModeState")]
         public string PlayModeState { get; set; } = "Stopped";
         
@@ -34,6 +37,9 @@ namespace Plugins.GamePilot.Editor.MCP
         [JsonProperty("projectName")]
         public string ProjectName { get; set; } = "Unknown";
         
+        [JsonProperty("projectPath")]
+        public string ProjectPath { get; set; } = "Unknown";
+        
         [JsonProperty("graphicsDeviceType")]
         public string GraphicsDeviceType { get; set; } = "Unknown";
         
@@ -48,6 +54,13 @@ namespace Plugins.GamePilot.Editor.MCP
         
         [JsonProperty("availableMenuItems")]
         public List<string> AvailableMenuItems { get; set; } = new List<string>();
+        
+        // Lets the server tell when a script change has been compiled and reloaded
+        [JsonProperty("isCompiling")]
+        public bool IsCompiling { get; set; }
+        
+        [JsonProperty("isUpdating")]
+        public bool IsUpdating { get; set; }
     }
     
     [Serializable]
@@ -0,0 +1,410 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { isIgnoredByUnity } from './guidIndex.js';
+
+export interface AssemblyDefinitionInfo {
+  name: string;
+  // .asmdef file, relative to the project root ("Assets/...", "Packages/...")
+  path: string;
+  guid?: string;
+  // Where the definition was found; registry packages live in Library/PackageCache
+  source: 'assets' | 'package' | 'packageCache';
+  rootNamespace?: string;
+  // As written in the file: assembly names or "GUID:<guid>"
+  references: string[];
+  includePlatforms: string[];
+  excludePlatforms: string[];
+  defineConstraints: string[];
+  autoReferenced: boolean;
+  // Only compiled for the Editor (includePlatforms is just "Editor")
+  editorOnly: boolean;
+  // References the test runner, so it is only compiled when tests are
+  testAssembly: boolean;
+}
+
+export interface AssemblyReferenceInfo {
+  // .asmref file, relative to the project root
+  path: string;
+  reference: string;
+}
+
+export interface AssemblyGraph {
+  assemblies: AssemblyDefinitionInfo[];
+  assemblyReferences: AssemblyReferenceInfo[];
+  // Files that could not be parsed
+  invalid: { path: string, error: string }[];
+  // Whether Library/PackageCache had registry packages to resolve references with; it is
+  // empty until Unity has resolved the packages
+  packageCacheAvailable: boolean;
+}
+
+export interface AssemblyOwnership {
+  assembly: string;
+  // The .asmdef or .asmref that decides it; absent for the predefined assemblies
+  definedBy?: string;
+  predefined: boolean;
+  editorOnly: boolean;
+  rootNamespace?: string;
+}
+
+export interface AssemblyGraphIssue {
+  severity: 'error' | 'warning';
+  kind: 'missingReference' | 'cycle' | 'editorReference' | 'duplicateName' | 'conflictingDefinitions' | 'invalidFile';
+  assembly?: string;
+  path?: string;
+  message: string;
+}
+
+// Scan the project's .asmdef and .asmref files: Assets, embedded and local packages (Packages),
+// and registry packages (Library/PackageCache) so that references into packages resolve
+export async function loadAssemblyGraph(projectRootPath: string, includePackageCache: boolean = true): Promise<AssemblyGraph> {
+  const graph: AssemblyGraph = { assemblies: [], assemblyReferences: [], invalid: [], packageCacheAvailable: false };
+  const roots: [string, AssemblyDefinitionInfo['source']][] = [['Assets', 'assets'], ['Packages', 'package']];
+  if (includePackageCache) roots.push([path.join('Library', 'PackageCache'), 'packageCache']);
+
+  for (const [root, source] of roots) {
+    const files = await findAssemblyFiles(path.join(projectRootPath, root));
+    if (source === 'packageCache' && files.length > 0) graph.packageCacheAvailable = true;
+    for (const filePath of files) {
+      const relativePath = path.relative(projectRootPath, filePath).split(path.sep).join('/');
+      try {
+        if (filePath.endsWith('.asmdef')) {
+          graph.assemblies.push(await readAssemblyDefinition(filePath, projectRootPath, source));
+        } else {
+          const definition = JSON.parse(stripBom(await fs.readFile(filePath, 'utf-8')));
+          if (typeof definition.reference !== 'string') throw new Error('missing "reference"');
+          graph.assemblyReferences.push({ path: relativePath, reference: definition.reference });
+        }
+      } catch (error) {
+        graph.invalid.push({ path: relativePath, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return graph;
+}
+
+export async function readAssemblyDefinition(
+  filePath: string,
+  projectRootPath: string,
+  source: AssemblyDefinitionInfo['source'] = 'assets'
+): Promise<AssemblyDefinitionInfo> {
+  const definition = JSON.parse(stripBom(await fs.readFile(filePath, 'utf-8')));
+  const guid = await fs.readFile(`${filePath}.meta`, 'utf-8')
+    .then(meta => meta.match(/^guid:\s*([0-9a-fA-F]{32})/m)?.[1].toLowerCase(), () => undefined);
+
+  const strings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  const references = strings(definition.references);
+  const includePlatforms = strings(definition.includePlatforms);
+  const defineConstraints = strings(definition.defineConstraints);
+
+  return {
+    name: typeof definition.name === 'string' && definition.name ? definition.name : path.basename(filePath, '.asmdef'),
+    path: path.relative(projectRootPath, filePath).split(path.sep).join('/'),
+    guid,
+    source,
+    rootNamespace: typeof definition.rootNamespace === 'string' && definition.rootNamespace ? definition.rootNamespace : undefined,
+    references,
+    includePlatforms,
+    excludePlatforms: strings(definition.excludePlatforms),
+    defineConstraints,
+    autoReferenced: definition.autoReferenced !== false,
+    editorOnly: includePlatforms.length === 1 && includePlatforms[0] === 'Editor',
+    testAssembly: strings(definition.optionalUnityReferences).includes('TestAssemblies') ||
+      defineConstraints.includes('UNITY_INCLUDE_TESTS') ||
+      references.some(reference => reference === 'UnityEngine.TestRunner' || reference === 'UnityEditor.TestRunner')
+  };
+}
+
+// Resolve an asmdef reference ("Name" or "GUID:<guid>") to the assembly it names
+export function resolveAssemblyReference(graph: AssemblyGraph, reference: string): AssemblyDefinitionInfo | undefined {
+  if (reference.startsWith('GUID:')) {
+    const guid = reference.slice(5).toLowerCase();
+    return graph.assemblies.find(assembly => assembly.guid === guid);
+  }
+  return graph.assemblies.find(assembly => assembly.name === reference);
+}
+
+// The assembly a script at projectRelativePath ("Assets/..." or "Packages/...") is compiled
+// into: the nearest .asmdef or .asmref in its folder or a parent folder, otherwise one of the
+// predefined Assembly-CSharp assemblies
+export function findOwningAssembly(graph: AssemblyGraph, projectRelativePath: string, isFolder: boolean = false): AssemblyOwnership {
+  const segments = projectRelativePath.split('/').filter(Boolean);
+  const folders = isFolder ? segments : segments.slice(0, -1);
+
+  for (let depth = folders.length; depth > 0; depth--) {
+    const folder = folders.slice(0, depth).join('/');
+    const inFolder = (filePath: string) => path.posix.dirname(filePath) === folder;
+
+    const assembly = graph.assemblies.find(candidate => inFolder(candidate.path));
+    if (assembly) {
+      return { assembly: assembly.name, definedBy: assembly.path, predefined: false, editorOnly: assembly.editorOnly, rootNamespace: assembly.rootNamespace };
+    }
+
+    const assemblyReference = graph.assemblyReferences.find(candidate => inFolder(candidate.path));
+    if (assemblyReference) {
+      const target = resolveAssemblyReference(graph, assemblyReference.reference);
+      return {
+        assembly: target?.name ?? assemblyReference.reference,
+        definedBy: assemblyReference.path,
+        predefined: false,
+        editorOnly: target?.editorOnly ?? false,
+        rootNamespace: target?.rootNamespace
+      };
+    }
+  }
+
+  // Outside any assembly definition: Assembly-CSharp, split by Editor folders and the
+  // first-pass folders that compile before everything else
+  const assetFolders = folders[0] === 'Assets' ? folders.slice(1) : folders;
+  const editor = assetFolders.includes('Editor');
+  const firstPass = ['Plugins', 'Standard Assets', 'Pro Standard Assets'].includes(assetFolders[0]);
+  return {
+    assembly: `Assembly-CSharp${editor ? '-Editor' : ''}${firstPass ? '-firstpass' : ''}`,
+    predefined: true,
+    editorOnly: editor
+  };
+}
+
+// Missing references, reference cycles, runtime assemblies referencing Editor-only ones,
+// duplicate names, and folders claimed by more than one definition. Registry packages are
+// only used to resolve references; their own problems aren't reported.
+export function checkAssemblyGraph(graph: AssemblyGraph): AssemblyGraphIssue[] {
+  const issues: AssemblyGraphIssue[] = [];
+  const checked = graph.assemblies.filter(assembly => assembly.source !== 'packageCache');
+
+  for (const invalid of graph.invalid) {
+    if (invalid.path.startsWith('Library/')) continue;
+    issues.push({ severity: 'error', kind: 'invalidFile', path: invalid.path, message: `Could not parse ${invalid.path}: ${invalid.error}` });
+  }
+
+  const byName = new Map<string, AssemblyDefinitionInfo[]>();
+  for (const assembly of graph.assemblies) {
+    byName.set(assembly.name, [...(byName.get(assembly.name) ?? []), assembly]);
+  }
+  for (const [name, assemblies] of byName) {
+    if (assemblies.length > 1) {
+      issues.push({
+        severity: 'error',
+        kind: 'duplicateName',
+        assembly: name,
+        message: `Assembly name ${name} is defined more than once: ${assemblies.map(assembly => assembly.path).join(', ')}`
+      });
+    }
+  }
+
+  const folders = new Map<string, string[]>();
+  for (const filePath of [...checked.map(assembly => assembly.path), ...graph.assemblyReferences.map(reference => reference.path)]) {
+    const folder = path.posix.dirname(filePath);
+    folders.set(folder, [...(folders.get(folder) ?? []), filePath]);
+  }
+  for (const [folder, files] of folders) {
+    if (files.length > 1) {
+      issues.push({
+        severity: 'error',
+        kind: 'conflictingDefinitions',
+        path: folder,
+        message: `${folder} contains more than one assembly definition or reference: ${files.map(file => path.posix.basename(file)).join(', ')}`
+      });
+    }
+  }
+
+  // A name that isn't defined in Assets or Packages may still come from a registry package
+  // (when the package cache hasn't been filled yet) or a core package in the Unity installation
+  const unresolvedReason = graph.packageCacheAvailable
+    ? 'which isn\'t defined in the project or the package cache; unless a core package in the Unity installation defines it, it doesn\'t exist'
+    : 'which isn\'t defined in Assets or Packages; the package cache (Library/PackageCache) was not available to check registry packages';
+
+  for (const assemblyReference of graph.assemblyReferences) {
+    if (assemblyReference.path.startsWith('Library/')) continue;
+    if (!resolveAssemblyReference(graph, assemblyReference.reference)) {
+      issues.push({
+        severity: 'warning',
+        kind: 'missingReference',
+        path: assemblyReference.path,
+        message: `${assemblyReference.path} refers to assembly ${assemblyReference.reference}, ${unresolvedReason}`
+      });
+    }
+  }
+
+  for (const assembly of checked) {
+    for (const reference of assembly.references) {
+      const target = resolveAssemblyReference(graph, reference);
+      if (!target) {
+        issues.push({
+          severity: 'warning',
+          kind: 'missingReference',
+          assembly: assembly.name,
+          path: assembly.path,
+          message: `${assembly.name} references ${reference}, ${unresolvedReason}`
+        });
+      } else if (target.editorOnly && !assembly.editorOnly && !assembly.testAssembly && !assembly.defineConstraints.includes('UNITY_EDITOR')) {
+        issues.push({
+          severity: 'warning',
+          kind: 'editorReference',
+          assembly: assembly.name,
+          path: assembly.path,
+          message: `${assembly.name} is built for players but references Editor-only ${target.name}, so player builds will fail to compile it`
+        });
+      }
+    }
+  }
+
+  for (const cycle of findReferenceCycles(graph)) {
+    issues.push({
+      severity: 'error',
+      kind: 'cycle',
+      assembly: cycle[0],
+      message: `Assembly reference cycle: ${[...cycle, cycle[0]].join(' -> ')}`
+    });
+  }
+
+  return issues;
+}
+
+// Each strongly connected group of assemblies (Tarjan), as a path through the cycle
+export function findReferenceCycles(graph: AssemblyGraph): string[][] {
+  const edges = new Map<string, string[]>();
+  for (const assembly of graph.assemblies) {
+    const targets = assembly.references
+      .map(reference => resolveAssemblyReference(graph, reference)?.name)
+      .filter((name): name is string => name !== undefined);
+    edges.set(assembly.name, [...(edges.get(assembly.name) ?? []), ...targets]);
+  }
+
+  const indexes = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let nextIndex = 0;
+
+  const connect = (name: string) => {
+    indexes.set(name, nextIndex);
+    lowLinks.set(name, nextIndex++);
+    stack.push(name);
+    onStack.add(name);
+
+    for (const target of edges.get(name) ?? []) {
+      if (!indexes.has(target)) {
+        connect(target);
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, lowLinks.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLinks.set(name, Math.min(lowLinks.get(name)!, indexes.get(target)!));
+      }
+    }
+
+    if (lowLinks.get(name) === indexes.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+
+      if (component.length > 1 || (edges.get(name) ?? []).includes(name)) {
+        cycles.push(orderCycle(component, edges));
+      }
+    }
+  };
+
+  for (const name of edges.keys()) {
+    if (!indexes.has(name)) connect(name);
+  }
+  return cycles;
+}
+
+// Follow references within the component from its alphabetically first member, so the
+// cycle reads as a chain "A -> B -> C (-> A)"
+function orderCycle(component: string[], edges: Map<string, string[]>): string[] {
+  const members = new Set(component);
+  const start = [...component].sort()[0];
+  const ordered = [start];
+  const visited = new Set(ordered);
+
+  let current = start;
+  while (true) {
+    const next = (edges.get(current) ?? []).find(target => members.has(target) && !visited.has(target));
+    if (!next) break;
+    ordered.push(next);
+    visited.add(next);
+    current = next;
+  }
+  return ordered;
+}
+
+// A copy of the graph with extra references added, to check a change before making it
+export function withAddedReferences(graph: AssemblyGraph, additions: { from: string, to: string }[]): AssemblyGraph {
+  const assemblies = graph.assemblies.map(assembly => ({ ...assembly, references: [...assembly.references] }));
+  for (const { from, to } of additions) {
+    const source = assemblies.find(assembly => assembly.name === from);
+    if (!source) throw new Error(`Unknown assembly ${from}`);
+    if (!resolveAssemblyReference(graph, to)) throw new Error(`Unknown assembly ${to}`);
+    if (!source.references.includes(to)) source.references.push(to);
+  }
+  return { ...graph, assemblies };
+}
+
+// Graphviz DOT rendering, Editor-only assemblies dashed and packages grey
+export function assemblyGraphToDot(graph: AssemblyGraph): string {
+  const quote = (text: string) => `"${text.replace(/["\\]/g, '\\$&')}"`;
+  const lines = [
+    'digraph assemblies {',
+    '  rankdir=LR;',
+    '  node [shape=box, fontname="Helvetica", fontsize=10];'
+  ];
+
+  for (const assembly of graph.assemblies) {
+    const styles = [
+      ...(assembly.editorOnly ? ['style=dashed'] : []),
+      ...(assembly.source !== 'assets' ? ['color=gray50', 'fontcolor=gray40'] : [])
+    ];
+    lines.push(`  ${quote(assembly.name)}${styles.length > 0 ? ` [${styles.join(', ')}]` : ''};`);
+  }
+  for (const assembly of graph.assemblies) {
+    for (const reference of assembly.references) {
+      const target = resolveAssemblyReference(graph, reference);
+      lines.push(`  ${quote(assembly.name)} -> ${quote(target?.name ?? reference)}${target ? '' : ' [color=red]'};`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// Root namespace set in Project Settings > Editor for scripts outside any assembly definition
+export async function readProjectRootNamespace(projectRootPath: string): Promise<string | undefined> {
+  try {
+    const settings = await fs.readFile(path.join(projectRootPath, 'ProjectSettings', 'EditorSettings.asset'), 'utf-8');
+    return settings.match(/^\s*m_ProjectGenerationRootNamespace:[ \t]*([\w.]+)/m)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+async function findAssemblyFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const results: string[] = [];
+  for (const entry of entries) {
+    if (isIgnoredByUnity(entry.name)) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      results.push(...await findAssemblyFiles(fullPath));
+    } else if (entry.name.endsWith('.asmdef') || entry.name.endsWith('.asmref')) {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
@@ -0,0 +1,151 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getGuidIndex } from './guidIndex.js';
+import { canReferenceAssets, extractGuidReferences } from './assetReferences.js';
+
+export interface DependencyNode {
+  // Relative to the Assets folder
+  path: string;
+  guid?: string;
+  type: string;
+  size: number;
+  dependencies?: DependencyNode[];
+  // Already expanded elsewhere in the tree
+  repeated?: boolean;
+  // Not expanded because maxDepth was reached
+  truncated?: boolean;
+}
+
+export interface DependencyGraph {
+  root: DependencyNode;
+  // Every asset in the graph once, root included
+  assets: { path: string, type: string, size: number }[];
+  edges: [string, string][];
+  // GUIDs that don't belong to an asset under Assets (packages, deleted assets)
+  unresolved: { guid: string, referencedBy: string[] }[];
+  // Binary serialized files whose references could not be followed
+  binarySerialized: string[];
+}
+
+// Built-in resources referenced by many assets (default materials, shaders, meshes)
+const BUILTIN_GUIDS = new Set([
+  '0000000000000000e000000000000000',
+  '0000000000000000f000000000000000',
+  '0000000000000000d000000000000000'
+]);
+
+// Follow GUID references from an asset (and its .meta file, e.g. model material remaps)
+// to build its dependency tree. Each asset is expanded once; later occurrences are
+// marked as repeated, so shared dependencies don't blow up the tree.
+export async function buildDependencyGraph(
+  assetPath: string,
+  assetsPath: string,
+  getType: (assetPath: string) => string,
+  maxDepth: number = -1
+): Promise<DependencyGraph> {
+  // One snapshot for the whole walk: lookups through the index would rescan it as it goes
+  const entries = await getGuidIndex(assetsPath).entries();
+  const pathsByGuid = new Map(entries.map(entry => [entry.guid, entry.path]));
+  const expanded = new Set<string>();
+  const assets = new Map<string, { path: string, type: string, size: number }>();
+  const edges = new Map<string, [string, string]>();
+  const unresolved = new Map<string, Set<string>>();
+  const binarySerialized: string[] = [];
+
+  const visit = async (nodePath: string, guid: string | undefined, depth: number): Promise<DependencyNode> => {
+    const absolutePath = path.join(assetsPath, nodePath);
+    const size = await fs.stat(absolutePath).then(stats => stats.isFile() ? stats.size : 0, () => 0);
+    const node: DependencyNode = { path: nodePath, guid, type: getType(nodePath), size };
+    assets.set(nodePath, { path: nodePath, type: node.type, size });
+
+    if (expanded.has(nodePath)) {
+      node.repeated = true;
+      return node;
+    }
+    if (maxDepth >= 0 && depth >= maxDepth) {
+      node.truncated = true;
+      return node;
+    }
+    expanded.add(nodePath);
+
+    const dependencies: DependencyNode[] = [];
+    const { guids, binary } = await readReferencedGuids(absolutePath);
+    if (binary) binarySerialized.push(nodePath);
+    for (const dependencyGuid of guids) {
+      if (dependencyGuid === guid || BUILTIN_GUIDS.has(dependencyGuid)) continue;
+
+      const dependencyPath = pathsByGuid.get(dependencyGuid);
+      if (!dependencyPath) {
+        unresolved.set(dependencyGuid, (unresolved.get(dependencyGuid) ?? new Set()).add(nodePath));
+        continue;
+      }
+      edges.set(`${nodePath}\n${dependencyPath}`, [nodePath, dependencyPath]);
+      dependencies.push(await visit(dependencyPath, dependencyGuid, depth + 1));
+    }
+    if (dependencies.length > 0) node.dependencies = dependencies;
+    return node;
+  };
+
+  const root = await visit(assetPath, entries.find(entry => entry.path === assetPath)?.guid, 0);
+
+  return {
+    root,
+    assets: [...assets.values()],
+    edges: [...edges.values()],
+    unresolved: [...unresolved].map(([guid, referencedBy]) => ({ guid, referencedBy: [...referencedBy] })),
+    binarySerialized
+  };
+}
+
+// Graphviz DOT rendering of the graph, one node per asset labelled with its type and size
+export function dependencyGraphToDot(graph: DependencyGraph): string {
+  const quote = (text: string) => `"${text.replace(/["\\]/g, '\\$&')}"`;
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, fontname="Helvetica", fontsize=10];'
+  ];
+
+  for (const asset of graph.assets) {
+    const label = `${path.posix.basename(asset.path)}\\n${asset.type}, ${formatSize(asset.size)}`;
+    const style = asset.path === graph.root.path ? ', style=bold' : '';
+    lines.push(`  ${quote(asset.path)} [label="${label.replace(/"/g, '\\"')}"${style}];`);
+  }
+  for (const [from, to] of graph.edges) {
+    lines.push(`  ${quote(from)} -> ${quote(to)};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Distinct GUIDs referenced by an asset file and its .meta file, in order of appearance
+async function readReferencedGuids(absolutePath: string): Promise<{ guids: string[], binary: boolean }> {
+  const guids = new Set<string>();
+  let binary = false;
+  for (const file of [absolutePath, `${absolutePath}.meta`]) {
+    if (!canReferenceAssets(file)) continue;
+
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    if (content.includes('\0')) {
+      binary = true;
+      continue;
+    }
+
+    for (const reference of extractGuidReferences(content, file)) {
+      guids.add(reference.guid);
+    }
+  }
+  return { guids: [...guids], binary };
+}
@@ -0,0 +1,159 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseUnityYaml, UnityYamlDocument } from './unityYaml.js';
+import { isIgnoredByUnity } from './guidIndex.js';
+import { AssetReference } from './types.js';
+
+// Text-serialized Unity formats that can reference other assets by GUID
+export const YAML_ASSET_EXTENSIONS = new Set([
+  '.unity', '.prefab', '.asset', '.mat', '.controller', '.overridecontroller', '.anim', '.mask',
+  '.physicmaterial', '.physicsmaterial2d', '.playable', '.signal', '.lighting', '.giparams',
+  '.rendertexture', '.flare', '.spriteatlas', '.spriteatlasv2', '.terrainlayer', '.mixer',
+  '.guiskin', '.fontsettings', '.cubemap', '.brush', '.preset', '.shadervariants'
+]);
+
+// Other text formats that embed GUIDs (assembly definitions, shader graphs, UI Toolkit, VFX)
+const OTHER_REFERENCING_EXTENSIONS = new Set([
+  '.asmdef', '.asmref', '.shadergraph', '.shadersubgraph', '.vfx', '.vfxoperator', '.uxml', '.uss', '.tss'
+]);
+
+// Fields that point back at the source prefab of a prefab instance rather than being real references
+const PREFAB_BOOKKEEPING_FIELDS = new Set(['m_CorrespondingSourceObject', 'm_PrefabAsset', 'm_PrefabParentObject']);
+
+// An entry of a prefab instance's modification list
+const PREFAB_MODIFICATION_PATH = /(^|\.)m_Modifications\[\d+\]$/;
+
+const GUID_REFERENCE_PATTERN = /[0-9a-f]{32}/gi;
+
+// .meta files also hold other 32-digit hex IDs (spriteID, hashes), so only guid: keys count there
+const META_GUID_REFERENCE_PATTERN = /\bguid:[ \t]*([0-9a-f]{32})\b/gi;
+
+export function canReferenceAssets(filePath: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  return YAML_ASSET_EXTENSIONS.has(ext) || OTHER_REFERENCING_EXTENSIONS.has(ext) || ext === '.meta';
+}
+
+// All GUID references in a file's content, with the referencing object and field for Unity YAML
+export function extractGuidReferences(content: string, filePath: string): AssetReference[] {
+  const ext = path.extname(filePath).toLowerCase();
+
+  if (YAML_ASSET_EXTENSIONS.has(ext)) {
+    try {
+      return extractYamlReferences(parseUnityYaml(content));
+    } catch {
+      // Binary serialized or not Unity YAML after all - fall back to a plain text scan
+    }
+  }
+
+  const lines = content.split('\n');
+  return [...content.matchAll(ext === '.meta' ? META_GUID_REFERENCE_PATTERN : GUID_REFERENCE_PATTERN)]
+    .map(match => ({
+      guid: (match[1] ?? match[0]).toLowerCase(),
+      line: content.slice(0, match.index).split('\n').length
+    }))
+    // A .meta file's own top-level "guid:" line identifies its asset, it doesn't reference it
+    .filter(ref => ext !== '.meta' || !lines[ref.line - 1].startsWith('guid:'));
+}
+
+function extractYamlReferences(documents: UnityYamlDocument[]): AssetReference[] {
+  const byId = new Map(documents.map(doc => [doc.fileID, doc]));
+  const references: AssetReference[] = [];
+
+  for (const doc of documents) {
+    // Stripped objects only restate which source prefab object they stand in for
+    if (doc.stripped) continue;
+
+    const gameObjectId = doc.type === 'GameObject' ? doc.fileID : doc.data.m_GameObject?.fileID;
+    const gameObject = gameObjectId !== undefined ? byId.get(String(gameObjectId)) : undefined;
+
+    const visit = (value: any, propertyPath: string) => {
+      if (Array.isArray(value)) {
+        value.forEach((item, index) => visit(item, `${propertyPath}[${index}]`));
+        return;
+      }
+      if (!value || typeof value !== 'object') return;
+
+      if (typeof value.guid === 'string' && /^[0-9a-f]{32}$/i.test(value.guid)) {
+        references.push({
+          guid: value.guid.toLowerCase(),
+          fileID: value.fileID !== undefined ? String(value.fileID) : undefined,
+          objectType: doc.type,
+          objectFileID: doc.fileID,
+          gameObject: gameObject?.data.m_Name,
+          propertyPath
+        });
+        return;
+      }
+
+      // Prefab overrides: report the overridden property rather than the modification list slot.
+      // The entry's target is the source prefab object being overridden, not a reference.
+      if (PREFAB_MODIFICATION_PATH.test(propertyPath)) {
+        if (value.objectReference) visit(value.objectReference, `${propertyPath} (${value.propertyPath})`);
+        return;
+      }
+
+      for (const [key, child] of Object.entries(value)) {
+        if (PREFAB_BOOKKEEPING_FIELDS.has(key)) continue;
+        visit(child, propertyPath ? `${propertyPath}.${key}` : key);
+      }
+    };
+
+    visit(doc.data, '');
+  }
+
+  return references;
+}
+
+// Files under the given folder that may contain GUID references, skipping what Unity ignores
+export async function findReferencingFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const results: string[] = [];
+  for (const entry of entries) {
+    if (isIgnoredByUnity(entry.name)) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      results.push(...await findReferencingFiles(fullPath));
+    } else if (canReferenceAssets(entry.name)) {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
+
+// Files referencing the asset with the given GUID, and where in each file
+export async function findReferences(
+  guid: string,
+  searchPath: string,
+  assetsPath: string
+): Promise<{ file: string, references: AssetReference[] }[]> {
+  const target = guid.toLowerCase();
+  const results: { file: string, references: AssetReference[] }[] = [];
+
+  for (const filePath of await findReferencingFiles(searchPath)) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+    // Cheap check first - most files don't mention the GUID at all
+    if (!content.toLowerCase().includes(target)) continue;
+
+    const references = extractGuidReferences(content, filePath).filter(ref => ref.guid === target);
+    if (references.length === 0) continue;
+
+    results.push({
+      file: path.relative(assetsPath, filePath).split(path.sep).join('/'),
+      references
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,365 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+// A file or folder at one point in time. File contents are stored once per session
+// under objects/, named by their SHA-1.
+export type PathState =
+  | { kind: 'absent' }
+  | { kind: 'file', hash: string, size: number }
+  | { kind: 'directory', children: Record<string, PathState> };
+
+export interface ChangedPath {
+  // Relative to the Assets folder, with forward slashes
+  path: string;
+  before: PathState;
+  after: PathState;
+}
+
+export interface ChangeRecord {
+  id: number;
+  tool: string;
+  timestamp: string;
+  paths: ChangedPath[];
+  // Changes this one undid (set by revert_change and revert_session)
+  reverts?: number[];
+}
+
+export interface ChangeSession {
+  id: string;
+  changeCount: number;
+}
+
+const JOURNAL_FILE = 'journal.jsonl';
+const OBJECTS_DIR = 'objects';
+// Older sessions are deleted when a new one starts writing
+const MAX_SESSIONS = 20;
+
+// Per-session journal of the files the server mutates. Each change keeps the state of the
+// touched paths before and after, so it can be diffed and reverted. Stored outside Assets
+// (in Library/UnityMCP/Changes) so Unity never imports the snapshots.
+export class ChangeJournal {
+  public readonly sessionId: string = new Date().toISOString().replace(/[:.]/g, '-');
+  private nextId: number = 1;
+  private sessionReady: Promise<void> | null = null;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    public readonly directory: string,
+    private readonly assetsPath: string
+  ) {}
+
+  // Snapshot the given paths, run the mutation and journal whatever it changed. The change
+  // is recorded even if the mutation fails part way, so the partial result can be reverted.
+  public record<T>(tool: string, absolutePaths: string[], mutate: () => Promise<T>): Promise<{ result: T, change?: ChangeRecord }> {
+    return this.enqueue(async () => {
+      const paths = [...new Set(await Promise.all(absolutePaths.map(p => this.journaledPath(p))))];
+      const before = await Promise.all(paths.map(p => this.capture(p, this.sessionId)));
+
+      let result: T;
+      try {
+        result = await mutate();
+      } catch (error) {
+        await this.commit(this.sessionId, tool, paths, before);
+        throw error;
+      }
+      return { result, change: await this.commit(this.sessionId, tool, paths, before) };
+    });
+  }
+
+  public async listSessions(): Promise<ChangeSession[]> {
+    let names: string[];
+    try {
+      names = (await fs.readdir(this.directory)).sort().reverse();
+    } catch {
+      return [];
+    }
+
+    const sessions: ChangeSession[] = [];
+    for (const id of names) {
+      const records = await this.readRecords(id);
+      if (records.length > 0) sessions.push({ id, changeCount: records.length });
+    }
+    return sessions;
+  }
+
+  public async getChanges(sessionId: string = this.sessionId): Promise<ChangeRecord[]> {
+    await this.chain;
+    return this.readRecords(sessionId);
+  }
+
+  public async readObject(hash: string, sessionId: string = this.sessionId): Promise<Buffer> {
+    return fs.readFile(path.join(this.directory, sessionId, OBJECTS_DIR, hash));
+  }
+
+  // Undo the given changes, restoring every path they touched to its state before the
+  // earliest of them. Paths changed since (by a later change or outside the server) are
+  // reported as conflicts and left alone unless force is set. The revert is journaled as
+  // a change of its own in the same session, so it can be reverted in turn.
+  public revert(ids: number[] | 'all', sessionId: string = this.sessionId, force: boolean = false): Promise<ChangeRecord | undefined> {
+    return this.enqueue(async () => {
+      const records = await this.readRecords(sessionId);
+      const alreadyReverted = new Set(records.flatMap(record => record.reverts ?? []));
+
+      let targets: ChangeRecord[];
+      if (ids === 'all') {
+        targets = records;
+      } else {
+        targets = ids.map(id => {
+          const record = records.find(r => r.id === id);
+          if (!record) throw new Error(`Change ${id} not found in session ${sessionId}`);
+          if (alreadyReverted.has(id)) throw new Error(`Change ${id} has already been reverted`);
+          return record;
+        }).sort((a, b) => a.id - b.id);
+      }
+      if (targets.length === 0) return undefined;
+
+      const plan = planRevert(targets);
+      if (!force) {
+        const conflicts: string[] = [];
+        for (const { path: relativePath, expected } of plan) {
+          if (!sameState(await this.capture(relativePath), expected)) {
+            conflicts.push(relativePath);
+          }
+        }
+        if (conflicts.length > 0) {
+          throw new Error(`Changed since the journaled change, not reverting (use force to overwrite): ${conflicts.join(', ')}`);
+        }
+      }
+
+      const paths = plan.map(step => step.path);
+      const before = await Promise.all(paths.map(p => this.capture(p, sessionId)));
+      let change: ChangeRecord | undefined;
+      try {
+        for (const step of plan) {
+          await this.restore(step.path, step.restore, sessionId);
+        }
+      } finally {
+        change = await this.commit(
+          sessionId,
+          ids === 'all' ? 'revert_session' : 'revert_change',
+          paths,
+          before,
+          targets.map(record => record.id).filter(id => !alreadyReverted.has(id))
+        );
+      }
+      return change;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.chain.then(task, task);
+    this.chain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async commit(sessionId: string, tool: string, paths: string[], before: PathState[], reverts?: number[]): Promise<ChangeRecord | undefined> {
+    const changed: ChangedPath[] = [];
+    for (let i = 0; i < paths.length; i++) {
+      const after = await this.capture(paths[i], sessionId);
+      if (!sameState(before[i], after)) {
+        changed.push({ path: paths[i], before: before[i], after });
+      }
+    }
+    if (changed.length === 0) return undefined;
+
+    let id: number;
+    if (sessionId === this.sessionId) {
+      id = this.nextId++;
+    } else {
+      id = Math.max(0, ...(await this.readRecords(sessionId)).map(record => record.id)) + 1;
+    }
+
+    const record: ChangeRecord = {
+      id,
+      tool,
+      timestamp: new Date().toISOString(),
+      paths: changed,
+      ...(reverts ? { reverts } : {})
+    };
+
+    try {
+      await fs.appendFile(path.join(await this.getSessionPath(sessionId), JOURNAL_FILE), JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      console.error(`[Unity MCP] Error writing change journal:`, error);
+    }
+    return record;
+  }
+
+  // Current state of a path. With a session id, file contents are also stored in that
+  // session's objects so the state can be restored later.
+  private async capture(relativePath: string, storeInSession?: string): Promise<PathState> {
+    const absolutePath = path.join(this.assetsPath, relativePath);
+    let stats;
+    try {
+      stats = await fs.stat(absolutePath);
+    } catch {
+      return { kind: 'absent' };
+    }
+
+    if (stats.isDirectory()) {
+      const children: Record<string, PathState> = {};
+      for (const name of (await fs.readdir(absolutePath)).sort()) {
+        children[name] = await this.capture(path.posix.join(relativePath, name), storeInSession);
+      }
+      return { kind: 'directory', children };
+    }
+
+    const content = await fs.readFile(absolutePath);
+    const hash = crypto.createHash('sha1').update(content).digest('hex');
+    if (storeInSession) {
+      const objectPath = path.join(await this.getSessionPath(storeInSession), OBJECTS_DIR, hash);
+      if (!await fs.access(objectPath).then(() => true, () => false)) {
+        await fs.writeFile(objectPath, content);
+      }
+    }
+    return { kind: 'file', hash, size: content.length };
+  }
+
+  private async restore(relativePath: string, state: PathState, sessionId: string): Promise<void> {
+    const absolutePath = path.join(this.assetsPath, relativePath);
+    await fs.rm(absolutePath, { recursive: true, force: true });
+
+    if (state.kind === 'file') {
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, await this.readObject(state.hash, sessionId));
+    } else if (state.kind === 'directory') {
+      await fs.mkdir(absolutePath, { recursive: true });
+      for (const [name, child] of Object.entries(state.children)) {
+        await this.restore(path.posix.join(relativePath, name), child, sessionId);
+      }
+    }
+  }
+
+  private async readRecords(sessionId: string): Promise<ChangeRecord[]> {
+    if (!/^[\w.-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.directory, sessionId, JOURNAL_FILE), 'utf-8');
+    } catch {
+      return [];
+    }
+    return content.split('\n').filter(line => line.trim()).flatMap(line => {
+      try {
+        return [JSON.parse(line) as ChangeRecord];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  // The current session's folder is only created once something is journaled
+  private getSessionPath(sessionId: string): Promise<string> {
+    const sessionPath = path.join(this.directory, sessionId);
+    if (sessionId !== this.sessionId) {
+      return fs.mkdir(path.join(sessionPath, OBJECTS_DIR), { recursive: true }).then(() => sessionPath);
+    }
+    if (!this.sessionReady) {
+      this.sessionReady = (async () => {
+        await fs.mkdir(path.join(sessionPath, OBJECTS_DIR), { recursive: true });
+        await this.pruneSessions();
+      })();
+    }
+    return this.sessionReady.then(() => sessionPath);
+  }
+
+  private async pruneSessions(): Promise<void> {
+    try {
+      const sessions = (await fs.readdir(this.directory)).sort();
+      for (const id of sessions.slice(0, Math.max(0, sessions.length - MAX_SESSIONS))) {
+        if (id === this.sessionId) continue;
+        await fs.rm(path.join(this.directory, id), { recursive: true, force: true });
+      }
+    } catch (error) {
+      console.error(`[Unity MCP] Error pruning change journal:`, error);
+    }
+  }
+
+  // The path to journal for a mutation of absolutePath: its outermost missing parent folder,
+  // if any, so folders the mutation creates along the way are reverted with it
+  private async journaledPath(absolutePath: string): Promise<string> {
+    let target = path.resolve(absolutePath);
+    const root = path.resolve(this.assetsPath);
+    while (path.dirname(target) !== root && path.dirname(target).startsWith(root + path.sep) &&
+      !await fs.access(path.dirname(target)).then(() => true, () => false)) {
+      target = path.dirname(target);
+    }
+    return path.relative(root, target).split(path.sep).join('/');
+  }
+}
+
+const journals = new Map<string, ChangeJournal>();
+
+// One journal per project, shared by all tools for the lifetime of the server
+export function getChangeJournal(projectRootPath: string, assetsPath: string): ChangeJournal {
+  let journal = journals.get(projectRootPath);
+  if (!journal) {
+    journal = new ChangeJournal(path.join(projectRootPath, 'Library', 'UnityMCP', 'Changes'), assetsPath);
+    journals.set(projectRootPath, journal);
+  }
+  return journal;
+}
+
+// Every file in a state, keyed by path relative to the Assets folder
+export function flattenFiles(relativePath: string, state: PathState, files: Map<string, { hash: string, size: number }> = new Map()) {
+  if (state.kind === 'file') {
+    files.set(relativePath, { hash: state.hash, size: state.size });
+  } else if (state.kind === 'directory') {
+    for (const [name, child] of Object.entries(state.children)) {
+      flattenFiles(path.posix.join(relativePath, name), child, files);
+    }
+  }
+  return files;
+}
+
+function sameState(a: PathState, b: PathState): boolean {
+  if (a.kind === 'file' && b.kind === 'file') return a.hash === b.hash;
+  if (a.kind === 'directory' && b.kind === 'directory') {
+    const names = Object.keys(a.children);
+    return names.length === Object.keys(b.children).length &&
+      names.every(name => name in b.children && sameState(a.children[name], b.children[name]));
+  }
+  return a.kind === b.kind;
+}
+
+// Replace the state of a path nested inside a folder state
+function setNested(state: PathState, segments: string[], value: PathState): PathState {
+  if (segments.length === 0) return value;
+  const children = state.kind === 'directory' ? { ...state.children } : {};
+  const [name, ...rest] = segments;
+  children[name] = setNested(children[name] ?? { kind: 'absent' }, rest, value);
+  return { kind: 'directory', children };
+}
+
+// For each outermost path touched by the records: the state it should be in now (after the
+// last of them) and the state to restore (before the first). Changes to paths inside a
+// touched folder are folded into that folder's state, so nested changes revert consistently.
+function planRevert(records: ChangeRecord[]): { path: string, expected: PathState, restore: PathState }[] {
+  const allPaths = [...new Set(records.flatMap(record => record.paths.map(p => p.path)))];
+  const isInside = (child: string, parent: string) => parent === '' ? child !== '' : child.startsWith(parent + '/');
+  const roots = allPaths.filter(p => !allPaths.some(other => isInside(p, other)));
+
+  const fold = (root: string, ordered: ChangeRecord[], pick: (changed: ChangedPath) => PathState) => {
+    let state: PathState | undefined;
+    for (const record of ordered) {
+      for (const changed of record.paths) {
+        if (changed.path === root) {
+          state = pick(changed);
+        } else if (state && isInside(changed.path, root)) {
+          const segments = changed.path.slice(root === '' ? 0 : root.length + 1).split('/');
+          state = setNested(state, segments, pick(changed));
+        }
+      }
+    }
+    return state ?? { kind: 'absent' };
+  };
+
+  return roots.map(root => ({
+    path: root,
+    expected: fold(root, records, changed => changed.after),
+    restore: fold(root, [...records].reverse(), changed => changed.before)
+  }));
+}
@@ -0,0 +1,228 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { blankNonCode } from './csharpScanner.js';
+
+// What happens to code that uses a denied API: run it and report it, run it only when the
+// call passes confirm: true, or refuse it
+export type PolicyAction = 'warn' | 'confirm' | 'block';
+export type PolicyMode = PolicyAction | 'off';
+
+export interface PolicyRule {
+  id: string;
+  description: string;
+  // Namespaces, types or members, e.g. "System.Net", "File.Delete" or "File.WriteAll*"
+  apis: string[];
+  // Defaults to the policy mode
+  action?: PolicyAction;
+}
+
+export interface CommandPolicy {
+  mode: PolicyMode;
+  rules: PolicyRule[];
+  // Rule ids or APIs this project allows
+  allow: string[];
+  // Where the policy file is read from, whether or not it exists
+  path: string;
+  // The policy file, if the project has one
+  source?: string;
+}
+
+export interface PolicyViolation {
+  rule: string;
+  description: string;
+  action: PolicyAction;
+  line: number;
+  api: string;
+}
+
+// Code that mentions the policy file could rewrite the rules for every later call, so it is
+// refused in any mode other than off, and can't be allowed
+export const POLICY_FILE_RULE = 'policy-file';
+
+export interface PolicyEvaluation {
+  action: 'allow' | PolicyAction;
+  violations: PolicyViolation[];
+}
+
+// A guard rail against mistakes, not a sandbox: code can always reach these APIs indirectly
+const BUILT_IN_RULES: PolicyRule[] = [
+  {
+    id: 'process',
+    description: 'starts external processes',
+    // The bare type name also catches "new Process()" after "using System.Diagnostics;"
+    apis: ['System.Diagnostics.Process', 'Process.Start', 'ProcessStartInfo', 'Process']
+  },
+  {
+    id: 'file-delete',
+    description: 'deletes or moves files outside the change journal',
+    apis: [
+      'File.Delete', 'File.Move', 'File.Replace', 'Directory.Delete', 'Directory.Move',
+      'FileUtil.DeleteFileOrDirectory', 'FileUtil.MoveFileOrDirectory', 'FileUtil.ReplaceFile', 'FileUtil.ReplaceDirectory'
+    ]
+  },
+  {
+    id: 'file-write',
+    description: 'writes files outside the change journal',
+    apis: ['File.WriteAll*', 'File.AppendAll*', 'File.Create', 'File.Open*', 'FileStream', 'StreamWriter'],
+    action: 'warn'
+  },
+  {
+    id: 'asset-delete',
+    description: 'deletes assets',
+    apis: ['AssetDatabase.DeleteAsset', 'AssetDatabase.DeleteAssets', 'AssetDatabase.MoveAssetToTrash', 'AssetDatabase.MoveAssetsToTrash']
+  },
+  {
+    id: 'network',
+    description: 'accesses the network',
+    apis: ['System.Net', 'HttpClient', 'WebClient', 'WebRequest', 'HttpWebRequest', 'TcpClient', 'UdpClient', 'UnityWebRequest']
+  },
+  {
+    id: 'editor-exit',
+    description: 'closes the Unity Editor',
+    apis: ['EditorApplication.Exit', 'Environment.Exit', 'Environment.FailFast']
+  },
+  {
+    id: 'prefs-delete',
+    description: 'clears all saved preferences',
+    apis: ['PlayerPrefs.DeleteAll', 'EditorPrefs.DeleteAll']
+  }
+];
+
+const POLICY_MODES = ['off', 'warn', 'confirm', 'block'] as const;
+const POLICY_ACTIONS = ['warn', 'confirm', 'block'] as const;
+
+const PolicyFileSchema = z.object({
+  mode: z.enum(POLICY_MODES).optional(),
+  allow: z.array(z.string()).optional(),
+  // Action per rule id, overriding the mode and the rule's own action
+  actions: z.record(z.enum(POLICY_ACTIONS)).optional(),
+  rules: z.array(z.object({
+    id: z.string().min(1),
+    description: z.string().optional(),
+    apis: z.array(z.string().min(1)).min(1),
+    action: z.enum(POLICY_ACTIONS).optional(),
+  })).optional(),
+});
+
+// The built-in rules combined with the project's policy file, if it has one. Read on every
+// call so edits apply without a restart.
+export async function loadCommandPolicy(policyPath: string, defaultMode: string | undefined): Promise<CommandPolicy> {
+  const mode = POLICY_MODES.find(candidate => candidate === defaultMode) ?? 'confirm';
+  let content: string;
+  try {
+    content = await fs.readFile(policyPath, 'utf-8');
+  } catch {
+    return { mode, rules: BUILT_IN_RULES, allow: [], path: policyPath };
+  }
+
+  let parsed;
+  try {
+    parsed = PolicyFileSchema.safeParse(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`Invalid command policy ${policyPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid command policy ${policyPath}: ${issues.join('; ')}`);
+  }
+
+  const file = parsed.data;
+  const custom = (file.rules ?? []).map(rule => ({ ...rule, description: rule.description ?? `uses ${rule.apis.join(', ')}` }));
+  const rules = [...BUILT_IN_RULES.filter(rule => !custom.some(entry => entry.id === rule.id)), ...custom]
+    .map(rule => file.actions?.[rule.id] ? { ...rule, action: file.actions[rule.id] } : rule);
+  return { mode: file.mode ?? mode, rules, allow: file.allow ?? [], path: policyPath, source: policyPath };
+}
+
+const SEVERITY: Record<PolicyEvaluation['action'], number> = { allow: 0, warn: 1, confirm: 2, block: 3 };
+
+export function evaluateCommandPolicy(code: string, policy: CommandPolicy): PolicyEvaluation {
+  if (policy.mode === 'off') return { action: 'allow', violations: [] };
+
+  // Comments can't run, but strings are kept: a type name in a string can still be loaded by reflection
+  const text = blankNonCode(code, true);
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineAt = (index: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= index) line++;
+    return line + 1;
+  };
+
+  // "using static System.IO.File;" lets the code call Delete(path) without the type name
+  const staticImports = new Set([...text.matchAll(/\busing\s+static\s+([\w.\s]+?)\s*;/g)]
+    .map(match => match[1].replace(/\s+/g, '').split('.').pop()!));
+
+  const violations: PolicyViolation[] = [];
+  const policyFileName = path.basename(policy.path).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  for (const match of text.matchAll(new RegExp(policyFileName, 'gi'))) {
+    violations.push({
+      rule: POLICY_FILE_RULE,
+      description: 'accesses the command policy file',
+      action: 'block',
+      line: lineAt(match.index!),
+      api: match[0]
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const rule of policy.rules) {
+    if (policy.allow.includes(rule.id)) continue;
+    const action = rule.action ?? policy.mode;
+    // Longer APIs are listed first, so "Process" isn't reported again inside "Process.Start"
+    const matched: [number, number][] = [];
+
+    for (const api of rule.apis) {
+      const segments = api.split('.');
+      const type = segments.length > 1 ? segments.slice(0, -1).join('.') : undefined;
+      const patterns: [RegExp, string][] = [[apiPattern(api), '']];
+      if (type && staticImports.has(segments[segments.length - 2])) {
+        patterns.push([memberPattern(segments[segments.length - 1]), `${type}.`]);
+      }
+
+      for (const [pattern, prefix] of patterns) {
+        for (const match of text.matchAll(pattern)) {
+          const start = match.index!, end = start + match[0].length;
+          if (matched.some(([from, to]) => start < to && end > from)) continue;
+          const used = prefix + match[0].replace(/\s+/g, '');
+          const line = lineAt(start);
+          const key = `${rule.id}:${line}:${used}`;
+          if (seen.has(key) || isAllowed(policy.allow, used)) continue;
+          seen.add(key);
+          matched.push([start, end]);
+          violations.push({ rule: rule.id, description: rule.description, action, line, api: used });
+        }
+      }
+    }
+  }
+
+  violations.sort((a, b) => a.line - b.line || a.api.localeCompare(b.api));
+  const action = violations.reduce<PolicyEvaluation['action']>(
+    (strictest, violation) => SEVERITY[violation.action] > SEVERITY[strictest] ? violation.action : strictest, 'allow');
+  return { action, violations };
+}
+
+export function formatPolicyViolation(violation: PolicyViolation): string {
+  return `line ${violation.line}: ${violation.api} (${violation.rule}: ${violation.description})`;
+}
+
+// "File.WriteAll*" -> File . WriteAll<anything>, with optional whitespace around the dots
+function apiPattern(api: string): RegExp {
+  const wildcard = api.endsWith('*');
+  const segments = (wildcard ? api.slice(0, -1) : api).split('.')
+    .map(segment => segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`\\b${segments.join('\\s*\\.\\s*')}${wildcard ? '\\w*' : '\\b'}`, 'g');
+}
+
+// A statically imported member used on its own: Delete(...), but not other.Delete(...)
+function memberPattern(member: string): RegExp {
+  const wildcard = member.endsWith('*');
+  const name = (wildcard ? member.slice(0, -1) : member).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<!\\w)(?<!\\.\\s*)${name}${wildcard ? '\\w*' : '\\b'}`, 'g');
+}
+
+function isAllowed(allow: string[], api: string): boolean {
+  return allow.some(entry => entry.endsWith('*') ? api.startsWith(entry.slice(0, -1)) : entry === api);
+}
@@ -0,0 +1,50 @@
+// Bounded queue limiting how many editor commands run against Unity at once
+export class CommandQueue {
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(
+    private readonly concurrency: number = 1,
+    private readonly maxQueued: number = 20
+  ) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Command concurrency must be a whole number of at least 1, got ${concurrency}`);
+    }
+    if (!Number.isInteger(maxQueued) || maxQueued < 0) {
+      throw new Error(`Command queue size must be a whole number of at least 0, got ${maxQueued}`);
+    }
+  }
+
+  public get runningCount(): number {
+    return this.active;
+  }
+
+  public get queuedCount(): number {
+    return this.waiting.length;
+  }
+
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      if (this.waiting.length >= this.maxQueued) {
+        throw new Error(
+          `Command queue is full (${this.active} running, ${this.waiting.length} waiting). Try again once earlier commands finish.`
+        );
+      }
+      // The finishing task hands its slot straight to us, so active is not incremented here
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { CompilerDiagnostic, LogEntry } from './types.js';
+
+// Assets/Scripts/Player.cs(12,5): error CS0103: The name 'speed' does not exist in the current context
+const DIAGNOSTIC_PATTERN = /^(.+?)\((\d+),(\d+)\):\s*(error|warning)\s+(CS\d+):\s*(.*)$/;
+
+// Compiler diagnostics among log entries, in order and without duplicates (Unity may log
+// the same message both through the console and the compilation pipeline)
+export function parseCompilerDiagnostics(logs: LogEntry[]): CompilerDiagnostic[] {
+  const diagnostics = new Map<string, CompilerDiagnostic>();
+
+  for (const log of logs) {
+    for (const line of (log.message || '').split('\n')) {
+      const match = line.trim().match(DIAGNOSTIC_PATTERN);
+      if (!match) continue;
+
+      const [, file, lineNumber, column, severity, code, message] = match;
+      const diagnostic: CompilerDiagnostic = {
+        severity: severity as CompilerDiagnostic['severity'],
+        file: file.replace(/\\/g, '/'),
+        line: parseInt(lineNumber, 10),
+        column: parseInt(column, 10),
+        code,
+        message: message.trim()
+      };
+      const key = `${diagnostic.file}(${diagnostic.line},${diagnostic.column}) ${code} ${diagnostic.message}`;
+      if (!diagnostics.has(key)) diagnostics.set(key, diagnostic);
+    }
+  }
+
+  return [...diagnostics.values()];
+}
+
+export function formatCompilerDiagnostic(diagnostic: CompilerDiagnostic): string {
+  const { file, line, column, severity, code, message } = diagnostic;
+  return `${file}(${line},${column}): ${severity} ${code}: ${message}`;
+}
@@ -0,0 +1,461 @@
+import { CSharpMemberInfo, CSharpTypeInfo } from './types.js';
+
+// Declaration-level C# scanner. It does not build a syntax tree: comments, strings and
+// preprocessor lines are blanked out, then the text between braces and semicolons is
+// classified as a namespace, type or member header. Method bodies are skipped entirely.
+
+type Scope =
+  | { kind: 'namespace', name: string }
+  | { kind: 'type', type: CSharpTypeInfo }
+  | { kind: 'enum', type: CSharpTypeInfo }
+  | { kind: 'block' };
+
+const MODIFIERS = new Set([
+  'public', 'private', 'protected', 'internal', 'static', 'readonly', 'const', 'abstract', 'virtual',
+  'override', 'sealed', 'partial', 'async', 'extern', 'unsafe', 'new', 'volatile', 'required', 'file',
+  'ref', 'fixed', 'implicit', 'explicit'
+]);
+
+const TYPE_DECLARATION = /^((?:[a-z]+\s+)*?)(class|struct|interface|enum|record(?:\s+(?:class|struct))?)\s+(@?\w+)\s*(<[^>]*>)?\s*(?:\([^)]*\))?\s*(?::\s*(.*?))?\s*(?:where\s.*)?$/s;
+const DELEGATE_DECLARATION = /^((?:[a-z]+\s+)*?)delegate\s+(.+?)\s+(@?\w+)\s*(<[^>]*>)?\s*\(/s;
+
+export function scanCSharp(content: string, file: string): CSharpTypeInfo[] {
+  const text = blankNonCode(content);
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineAt = (index: number) => {
+    let low = 0, high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= index) low = mid; else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const types: CSharpTypeInfo[] = [];
+  const scopes: Scope[] = [{ kind: 'namespace', name: '' }];
+  let headerStart = 0;
+  let parenDepth = 0;
+
+  const current = () => scopes[scopes.length - 1];
+  const currentNamespace = () => {
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const scope = scopes[i];
+      if (scope.kind === 'namespace') return scope.name;
+    }
+    return '';
+  };
+  const currentType = () => {
+    const scope = current();
+    return scope.kind === 'type' ? scope.type : undefined;
+  };
+
+  const declareType = (header: string, offset: number): CSharpTypeInfo | undefined => {
+    const { attributes, rest, restOffset } = splitAttributes(header);
+    const match = rest.match(TYPE_DECLARATION) ?? rest.match(DELEGATE_DECLARATION);
+    if (!match || !onlyModifiers(match[1])) return undefined;
+
+    const isDelegate = !TYPE_DECLARATION.test(rest);
+    const name = match[3];
+    const containing = currentType();
+    const namespace = currentNamespace();
+    const type: CSharpTypeInfo = {
+      name: name.replace(/^@/, ''),
+      kind: isDelegate ? 'delegate' : match[2].split(/\s+/)[0] as CSharpTypeInfo['kind'],
+      namespace: namespace || undefined,
+      fullName: [containing?.fullName ?? namespace, name.replace(/^@/, '')].filter(Boolean).join('.'),
+      containingType: containing?.fullName,
+      file,
+      line: lineAt(offset + restOffset + rest.search(new RegExp(`\\b${name.replace(/^@/, '')}\\b`))),
+      modifiers: match[1].split(/\s+/).filter(Boolean),
+      baseTypes: isDelegate || !match[5] ? [] : splitTopLevel(match[5], ',').map(collapse).filter(Boolean),
+      members: []
+    };
+    if (isDelegate) type.signature = collapse(rest);
+    if (attributes.length > 0) type.attributes = attributes;
+    types.push(type);
+    return type;
+  };
+
+  const declareMember = (header: string, offset: number, endsWithBody: boolean) => {
+    const type = currentType();
+    if (!type) return;
+    for (const member of parseMember(header, type, endsWithBody)) {
+      member.line = lineAt(offset + member.line);
+      type.members.push(member);
+    }
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const scope = current();
+
+    if (ch === '(') parenDepth++;
+    else if (ch === ')') parenDepth = Math.max(0, parenDepth - 1);
+    if (parenDepth > 0 || (ch !== '{' && ch !== '}' && ch !== ';')) continue;
+
+    const header = text.slice(headerStart, i);
+    headerStart = i + 1;
+
+    if (ch === '}') {
+      if (scope.kind === 'enum') {
+        scope.type.members.push(...parseEnumMembers(header, headerStart - header.length - 1, lineAt));
+      }
+      if (scopes.length > 1) scopes.pop();
+      continue;
+    }
+
+    if (scope.kind === 'block' || scope.kind === 'enum') {
+      if (ch === '{') scopes.push({ kind: 'block' });
+      continue;
+    }
+
+    const trimmed = header.trim();
+    const namespaceMatch = trimmed.match(/^namespace\s+([\w.@]+)$/);
+    if (namespaceMatch && scope.kind === 'namespace') {
+      const name = [scope.name, namespaceMatch[1]].filter(Boolean).join('.');
+      if (ch === '{') {
+        scopes.push({ kind: 'namespace', name });
+      } else {
+        // File-scoped namespace (C# 10) applies to the rest of the file
+        scope.name = name;
+      }
+      continue;
+    }
+
+    const offset = i - header.length;
+    const type = trimmed ? declareType(header, offset) : undefined;
+    if (ch === '{') {
+      if (type) {
+        scopes.push({ kind: type.kind === 'enum' ? 'enum' : 'type', type });
+      } else {
+        if (trimmed) declareMember(header, offset, true);
+        scopes.push({ kind: 'block' });
+      }
+    } else if (!type && trimmed) {
+      declareMember(header, offset, false);
+    }
+  }
+
+  return types;
+}
+
+// Parse a member header into one member, or one per declarator of a field like "int a = 1, b;".
+// The returned lines are offsets into the header, fixed up by the caller.
+function parseMember(header: string, type: CSharpTypeInfo, endsWithBody: boolean): CSharpMemberInfo[] {
+  const { attributes, rest, restOffset } = splitAttributes(header);
+  if (!rest || /^(using|extern\s+alias)\b/.test(rest) || /^[=:]/.test(rest)) return [];
+
+  const arrow = findOperator(rest, '=>');
+  const assign = findOperator(rest, '=');
+  const isExpressionBodied = arrow >= 0 && (assign < 0 || arrow < assign);
+  const declaration = isExpressionBodied ? rest.slice(0, arrow) : assign >= 0 ? rest.slice(0, assign) : rest;
+  const parenIndex = findParameterList(declaration);
+
+  let member: CSharpMemberInfo;
+  if (parenIndex >= 0 && (assign < 0 || isExpressionBodied || parenIndex < assign)) {
+    const { modifiers, tokens } = splitModifiers(declaration.slice(0, parenIndex));
+    const operator = tokens.join(' ').match(/\boperator\s*(\S+)$/);
+    const name = operator ? `operator ${operator[1]}` : (tokens.pop() ?? '').replace(/<.*>$/, '');
+    if (!name) return [];
+    const isConstructor = !operator && tokens.length === 0 && name === type.name;
+    member = {
+      name,
+      kind: isConstructor ? 'constructor' : 'method',
+      line: restOffset + Math.max(0, rest.indexOf(name)),
+      signature: collapse(declaration.replace(/\s*:\s*(base|this)\s*\(.*$/s, '')),
+      modifiers
+    };
+    if (!isConstructor) member.type = tokens.join(' ').replace(/\s*\boperator\s*\S*$/, '') || undefined;
+  } else {
+    const { modifiers, tokens } = splitModifiers(declaration);
+    const isEvent = modifiers.includes('event');
+    const indexer = tokens.join(' ').match(/^(.*?)\s*\bthis\s*\[(.*)\]$/s);
+    let name: string;
+    let memberType: string;
+    if (indexer) {
+      name = 'this[]';
+      memberType = indexer[1];
+    } else {
+      const declarators = splitTopLevel(tokens.join(' '), ',');
+      const first = tokenize(declarators[0]);
+      name = first.pop() ?? '';
+      memberType = first.join(' ');
+    }
+    if (!/^@?[\w[\]]+$/.test(name) || !memberType) return [];
+
+    const isProperty = indexer !== null || isExpressionBodied || (endsWithBody && assign < 0);
+    member = {
+      name: name.replace(/^@/, ''),
+      kind: isEvent ? 'event' : isProperty ? 'property' : 'field',
+      line: restOffset + Math.max(0, rest.indexOf(name)),
+      type: memberType,
+      modifiers: modifiers.filter(modifier => modifier !== 'event')
+    };
+
+    if (type.kind === 'class' || type.kind === 'struct' || type.kind === 'record') {
+      const serialized = isSerialized(member, attributes);
+      if (serialized) member.serialized = true;
+    }
+  }
+
+  if (member.modifiers?.length === 0) delete member.modifiers;
+  if (attributes.length > 0) member.attributes = attributes;
+
+  const members = [member];
+  if (member.kind === 'field' || member.kind === 'event') {
+    let position = 0;
+    for (const [index, part] of splitTopLevel(rest, ',').entries()) {
+      const name = part.match(/^\s*(@?\w+)\s*(?:=|$)/s)?.[1];
+      if (index > 0 && name) {
+        members.push({ ...member, name: name.replace(/^@/, ''), line: restOffset + position + part.indexOf(name) });
+      }
+      position += part.length + 1;
+    }
+  }
+  return members;
+}
+
+// Whether Unity serializes the member: public or [SerializeField] instance fields, and
+// auto properties with [field: SerializeField]
+function isSerialized(member: CSharpMemberInfo, attributes: string[]): boolean {
+  const modifiers = member.modifiers ?? [];
+  if (attributes.includes('NonSerialized')) return false;
+  if (member.kind === 'property') return attributes.includes('field: SerializeField');
+  if (member.kind !== 'field') return false;
+  if (modifiers.some(modifier => modifier === 'static' || modifier === 'const' || modifier === 'readonly')) return false;
+  return modifiers.includes('public') || attributes.includes('SerializeField') || attributes.includes('SerializeReference');
+}
+
+function parseEnumMembers(body: string, offset: number, lineAt: (index: number) => number): CSharpMemberInfo[] {
+  const members: CSharpMemberInfo[] = [];
+  let position = 0;
+  for (const part of body.split(',')) {
+    const { rest, restOffset } = splitAttributes(part);
+    const name = rest.match(/^@?\w+/)?.[0];
+    if (name) {
+      members.push({ name: name.replace(/^@/, ''), kind: 'enumMember', line: lineAt(offset + position + restOffset) });
+    }
+    position += part.length + 1;
+  }
+  return members;
+}
+
+// Leading [Attribute] lists, with the "Attribute" suffix and namespaces dropped. Target
+// specifiers are kept, e.g. "field: SerializeField".
+function splitAttributes(header: string): { attributes: string[], rest: string, restOffset: number } {
+  const attributes: string[] = [];
+  let index = 0;
+  while (true) {
+    while (index < header.length && /\s/.test(header[index])) index++;
+    if (header[index] !== '[') break;
+
+    let depth = 0;
+    let end = index;
+    for (; end < header.length; end++) {
+      if (header[end] === '[') depth++;
+      else if (header[end] === ']' && --depth === 0) break;
+    }
+    const list = header.slice(index + 1, end);
+    const target = list.match(/^\s*(\w+)\s*:(?!:)/);
+    for (const attribute of splitTopLevel(target ? list.slice(target[0].length) : list, ',')) {
+      const name = attribute.trim().replace(/\(.*$/s, '').split('.').pop()!.trim().replace(/Attribute$/, '');
+      if (name) attributes.push(target ? `${target[1]}: ${name}` : name);
+    }
+    index = end + 1;
+  }
+  const rest = header.slice(index).trimEnd();
+  return { attributes, rest, restOffset: index };
+}
+
+function splitModifiers(declaration: string): { modifiers: string[], tokens: string[] } {
+  const tokens = tokenize(declaration);
+  const modifiers: string[] = [];
+  while (tokens.length > 0 && (MODIFIERS.has(tokens[0]) || tokens[0] === 'event')) {
+    modifiers.push(tokens.shift()!);
+  }
+  return { modifiers, tokens };
+}
+
+function onlyModifiers(prefix: string): boolean {
+  return prefix.split(/\s+/).filter(Boolean).every(word => MODIFIERS.has(word));
+}
+
+// Position of the parameter list: the first top-level "(" directly after a name,
+// which skips tuple return types like "(int, int) Foo()"
+function findParameterList(declaration: string): number {
+  let depth = 0;
+  for (let i = 0; i < declaration.length; i++) {
+    const ch = declaration[i];
+    // The symbol of "operator <" is not a generic argument list
+    if ((ch === '<' || ch === '>') && /\boperator\s*[<>=!]*$/.test(declaration.slice(0, i))) continue;
+    if (ch === '<' || ch === '[') depth++;
+    else if (ch === '>' || ch === ']') depth--;
+    else if (ch === '(' && depth === 0) {
+      const before = declaration.slice(0, i).replace(/\s*<[^<>]*(?:<[^<>]*>[^<>]*)*>\s*$/, '').trimEnd();
+      const word = before.match(/(@?[\w~]+|operator\s*\S+)$/)?.[0];
+      if (word && !MODIFIERS.has(word)) return i;
+    }
+    if (ch === '(') {
+      // Skip the tuple
+      let parens = 0;
+      for (; i < declaration.length; i++) {
+        if (declaration[i] === '(') parens++;
+        else if (declaration[i] === ')' && --parens === 0) break;
+      }
+    }
+  }
+  return -1;
+}
+
+// Index of a top-level "=" or "=>" (not ==, <=, >=, != or part of =>)
+function findOperator(text: string, operator: '=' | '=>'): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+    else if (ch === '=' && depth === 0) {
+      const isArrow = text[i + 1] === '>';
+      const isComparison = text[i + 1] === '=' || '=<>!'.includes(text[i - 1] ?? '');
+      if (operator === '=>' && isArrow) return i;
+      if (operator === '=' && !isArrow && !isComparison) return i;
+      if (isArrow || text[i + 1] === '=') i++;
+    }
+  }
+  return -1;
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if ('<([{'.includes(ch)) depth++;
+    else if ('>)]}'.includes(ch)) depth--;
+    else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// Single-line form of a declaration, e.g. "Dictionary<string, int> map"
+function collapse(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/\s*<\s*/g, '<')
+    .replace(/\s*>/g, '>')
+    .replace(/\s*\[\s*/g, '[')
+    .replace(/\s*\]/g, ']')
+    .replace(/\s*,\s*/g, ', ')
+    .trim();
+}
+
+// Space-separated words of a declaration, keeping generic arguments and tuples whole
+function tokenize(text: string): string[] {
+  return splitTopLevel(collapse(text), ' ').filter(Boolean);
+}
+
+// Replace comments, string and char literals (unless keepStrings) and preprocessor lines
+// with spaces, keeping line breaks so offsets still map to the original lines
+export function blankNonCode(content: string, keepStrings: boolean = false): string {
+  const out = content.split('');
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to && i < out.length; i++) {
+      if (out[i] !== '\n') out[i] = ' ';
+    }
+  };
+
+  let i = 0;
+  let lineStart = true;
+  while (i < content.length) {
+    const ch = content[i];
+    const next = content[i + 1];
+
+    if (lineStart && ch === '#') {
+      const end = content.indexOf('\n', i);
+      blank(i, end < 0 ? content.length : end);
+      i = end < 0 ? content.length : end;
+      continue;
+    }
+    if (ch === '\n') {
+      lineStart = true;
+      i++;
+      continue;
+    }
+    if (!/\s/.test(ch)) lineStart = false;
+
+    if (ch === '/' && next === '/') {
+      const end = content.indexOf('\n', i);
+      blank(i, end < 0 ? content.length : end);
+      i = end < 0 ? content.length : end;
+    } else if (ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2);
+      blank(i, end < 0 ? content.length : end + 2);
+      i = end < 0 ? content.length : end + 2;
+    } else if (ch === '"' || ch === '\'' || ((ch === '@' || ch === '$') && /^[@$]{0,2}"/.test(content.slice(i, i + 3)))) {
+      const end = skipLiteral(content, i);
+      if (!keepStrings) blank(i, end);
+      i = end;
+    } else {
+      i++;
+    }
+  }
+  return out.join('');
+}
+
+// End index (exclusive) of the string or char literal starting at start
+function skipLiteral(content: string, start: number): number {
+  let i = start;
+  let verbatim = false;
+  let interpolated = false;
+  while (content[i] === '@' || content[i] === '$') {
+    if (content[i] === '@') verbatim = true; else interpolated = true;
+    i++;
+  }
+
+  // Raw string literal (C# 11)
+  if (content.startsWith('"""', i)) {
+    let quotes = 0;
+    while (content[i + quotes] === '"') quotes++;
+    const end = content.indexOf('"'.repeat(quotes), i + quotes);
+    return end < 0 ? content.length : end + quotes;
+  }
+
+  const quote = content[i++];
+  let holeDepth = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (holeDepth > 0) {
+      if (ch === '"' || ch === '\'') {
+        i = skipLiteral(content, i);
+        continue;
+      }
+      if (ch === '{') holeDepth++;
+      else if (ch === '}') holeDepth--;
+      i++;
+      continue;
+    }
+    if (interpolated && ch === '{') {
+      if (content[i + 1] === '{') { i += 2; continue; }
+      holeDepth = 1;
+      i++;
+      continue;
+    }
+    if (verbatim) {
+      if (ch === quote && content[i + 1] === quote) { i += 2; continue; }
+      if (ch === quote) return i + 1;
+    } else {
+      if (ch === '\\') { i += 2; continue; }
+      if (ch === quote || ch === '\n') return i + 1;
+    }
+    i++;
+  }
+  return i;
+}
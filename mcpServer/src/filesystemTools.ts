@@ -14,8 +14,72 @@ import {
   DirectoryTreeArgsSchema,
   SearchFilesArgsSchema,
   GetFileInfoArgsSchema,
-  FindAssetsByTypeArgsSchema
+  FindAssetsByTypeArgsSchema,
+  InspectAssetFileArgsSchema,
+  FindReferencesArgsSchema,
+  MoveAssetArgsSchema,
+  RenameAssetArgsSchema,
+  DeleteAssetArgsSchema,
+  ListChangesArgsSchema,
+  RevertChangeArgsSchema,
+  RevertSessionArgsSchema,
+  GrepFilesArgsSchema,
+  FindSymbolArgsSchema,
+  ListTypesInFileArgsSchema,
+  FindSubclassesArgsSchema,
+  FindUnusedAssetsArgsSchema,
+  GetAssetDependenciesArgsSchema,
+  CreateScriptArgsSchema,
+  GetAssemblyGraphArgsSchema,
+  WhichAssemblyOwnsArgsSchema,
+  CheckAssemblyGraphArgsSchema,
+  ListPackagesArgsSchema,
+  AddPackageArgsSchema,
+  RemovePackageArgsSchema,
+  SetPackageVersionArgsSchema,
+  GetProjectSettingsArgsSchema,
+  GetBuildScenesArgsSchema,
+  SetBuildScenesArgsSchema,
+  AddBuildSceneArgsSchema,
+  ReorderBuildScenesArgsSchema
 } from './toolDefinitions.js';
+import { parseUnityYaml, inspectUnityYaml } from './unityYaml.js';
+import { getGuidIndex, isIgnoredByUnity } from './guidIndex.js';
+import { findReferences } from './assetReferences.js';
+import { findUnusedAssets } from './unusedAssets.js';
+import { buildDependencyGraph, dependencyGraphToDot } from './assetDependencies.js';
+import { formatCompilerDiagnostic } from './compilerDiagnostics.js';
+import { loadScriptTemplate, namespaceFromFolder, renderScript } from './scriptTemplates.js';
+import {
+  assemblyGraphToDot,
+  checkAssemblyGraph,
+  findOwningAssembly,
+  loadAssemblyGraph,
+  readProjectRootNamespace,
+  resolveAssemblyReference,
+  withAddedReferences
+} from './assemblyDefinitions.js';
+import {
+  buildPackageTree,
+  classifyPackageVersion,
+  listPackages,
+  PackageManifest,
+  readPackageLock,
+  readPackageManifest,
+  setManifestDependency,
+  validatePackageName
+} from './packageManifest.js';
+import {
+  DescribedBuildScene,
+  describeBuildScenes,
+  readBuildScenes,
+  readProjectSettings,
+  writeBuildScenes
+} from './projectSettings.js';
+import { scanCSharp } from './csharpScanner.js';
+import { getSymbolIndex, findSymbols, findSubclasses } from './symbolIndex.js';
+import { ChangeRecord, getChangeJournal, flattenFiles, PathState } from './changeJournal.js';
+import { BuildSceneEntry, YamlAssetInspection } from './types.js';
 
 // Interface definitions
 interface FileInfo {
@@ -34,8 +98,17 @@ interface TreeEntry {
   children?: TreeEntry[];
 }
 
+// Resolve the Assets folder and project root from UNITY_PROJECT_PATH (set up by index.ts to include 'Assets')
+export function getProjectPaths(): { projectPath: string, projectRootPath: string } {
+  const projectPath = process.env.UNITY_PROJECT_PATH || path.resolve(process.cwd());
+  const projectRootPath = projectPath.endsWith(`Assets${path.sep}`) 
+    ? projectPath.slice(0, -7) // Remove 'Assets/'
+    : projectPath;
+  return { projectPath, projectRootPath };
+}
+
 // Helper functions
-async function validatePath(requestedPath: string, assetRootPath: string): Promise<string> {
+export async function validatePath(requestedPath: string, assetRootPath: string): Promise<string> {
   // If path is empty or just quotes, use the asset root path directly
   if (!requestedPath || requestedPath.trim() === '' || requestedPath.trim() === '""' || requestedPath.trim() === "''") {
     console.error(`[Unity MCP] Using asset root path: ${assetRootPath}`);
@@ -162,6 +235,148 @@ function isPathExcluded(relativePath: string, excludePatterns: string[]): boolea
   });
 }
 
+function isPathIncluded(relativePath: string, includePatterns: string[]): boolean {
+  if (includePatterns.length === 0) return true;
+  // Patterns without a folder (e.g. "*.cs") match the file name anywhere below the search root
+  return includePatterns.some(pattern =>
+    minimatch(relativePath, pattern, { dot: true, matchBase: !pattern.includes('/') })
+  );
+}
+
+interface GrepOptions {
+  includePatterns: string[];
+  excludePatterns: string[];
+  contextLines: number;
+  maxMatchesPerFile: number;
+  maxResults: number;
+}
+
+interface GrepResult {
+  lines: string[];
+  matchCount: number;
+  matchedFileCount: number;
+  searchedFileCount: number;
+  skippedFileCount: number;
+  // Stopped early because maxResults was reached
+  truncated: boolean;
+}
+
+// Files larger than this are assumed not to be worth searching (baked data, big binary assets)
+const MAX_GREP_FILE_BYTES = 4 * 1024 * 1024;
+const MAX_GREP_LINE_LENGTH = 300;
+
+// grep-style content search: "path:line:column: text" for matches and "path-line- text" for
+// context lines, with "--" between non-adjacent groups. Paths are relative to the Assets folder.
+async function grepFiles(
+  rootPath: string,
+  assetRootPath: string,
+  matcher: RegExp,
+  options: GrepOptions
+): Promise<GrepResult> {
+  const result: GrepResult = {
+    lines: [], matchCount: 0, matchedFileCount: 0, searchedFileCount: 0, skippedFileCount: 0, truncated: false
+  };
+
+  async function searchFile(filePath: string) {
+    const stats = await fs.stat(filePath);
+    if (stats.size > MAX_GREP_FILE_BYTES) {
+      result.skippedFileCount++;
+      return;
+    }
+
+    const buffer = await fs.readFile(filePath);
+    // Same heuristic as git: a NUL byte near the start means binary
+    if (buffer.subarray(0, 8000).includes(0)) {
+      result.skippedFileCount++;
+      return;
+    }
+    result.searchedFileCount++;
+
+    const fileLines = normalizeLineEndings(buffer.toString('utf-8')).split('\n');
+    const displayPath = path.relative(assetRootPath, filePath).split(path.sep).join('/');
+    let fileMatches = 0;
+    let lastPrinted = -1;
+
+    for (let i = 0; i < fileLines.length; i++) {
+      matcher.lastIndex = 0;
+      const match = matcher.exec(fileLines[i]);
+      if (!match) continue;
+
+      if (fileMatches === 0) result.matchedFileCount++;
+      fileMatches++;
+      result.matchCount++;
+
+      const start = Math.max(0, i - options.contextLines, lastPrinted + 1);
+      if (options.contextLines > 0 && lastPrinted >= 0 && start > lastPrinted + 1) {
+        result.lines.push('--');
+      }
+      for (let j = start; j < i; j++) {
+        result.lines.push(`${displayPath}-${j + 1}- ${truncateLine(fileLines[j])}`);
+      }
+      result.lines.push(`${displayPath}:${i + 1}:${match.index + 1}: ${truncateLine(fileLines[i])}`);
+      lastPrinted = i;
+
+      // Trailing context stops at the next match, which prints its own leading context
+      const end = Math.min(fileLines.length - 1, i + options.contextLines);
+      for (let j = i + 1; j <= end; j++) {
+        matcher.lastIndex = 0;
+        if (matcher.test(fileLines[j]) && fileMatches < options.maxMatchesPerFile && result.matchCount < options.maxResults) break;
+        result.lines.push(`${displayPath}-${j + 1}- ${truncateLine(fileLines[j])}`);
+        lastPrinted = j;
+      }
+
+      if (result.matchCount >= options.maxResults) {
+        result.truncated = true;
+        return;
+      }
+      if (fileMatches >= options.maxMatchesPerFile) {
+        result.lines.push(`${displayPath}: more matches not shown (maxMatchesPerFile is ${options.maxMatchesPerFile})`);
+        break;
+      }
+    }
+    if (options.contextLines > 0 && fileMatches > 0) result.lines.push('--');
+  }
+
+  async function search(currentPath: string) {
+    const entries = (await fs.readdir(currentPath, { withFileTypes: true }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (result.truncated) return;
+      if (isIgnoredByUnity(entry.name)) continue;
+
+      const fullPath = path.join(currentPath, entry.name);
+      const relativePath = path.relative(rootPath, fullPath).split(path.sep).join('/');
+      if (isPathExcluded(relativePath, options.excludePatterns)) continue;
+
+      try {
+        if (entry.isDirectory()) {
+          await search(fullPath);
+        } else if (entry.isFile() && isPathIncluded(relativePath, options.includePatterns)) {
+          await searchFile(fullPath);
+        }
+      } catch (error) {
+        // Skip unreadable files and folders
+        continue;
+      }
+    }
+  }
+
+  if ((await fs.stat(rootPath)).isDirectory()) {
+    await search(rootPath);
+  } else {
+    await searchFile(rootPath);
+  }
+
+  // Drop a trailing group separator
+  if (result.lines[result.lines.length - 1] === '--') result.lines.pop();
+  return result;
+}
+
+function truncateLine(line: string): string {
+  return line.length > MAX_GREP_LINE_LENGTH ? `${line.slice(0, MAX_GREP_LINE_LENGTH)}...` : line;
+}
+
 function normalizeLineEndings(text: string): string {
   return text.replace(/\r\n/g, '\n');
 }
@@ -330,6 +545,8 @@ function getUnityAssetType(filePath: string): string {
     '.signalasset': 'Signal Asset',
     '.giparams': 'Global Illumination Parameters',
     '.cubemap': 'Cubemap',
+    '.asmdef': 'Assembly Definition',
+    '.asmref': 'Assembly Definition Reference',
   };
   
   return assetTypes[ext] || 'Other';
@@ -348,14 +565,15 @@ function getFileExtensionsForType(type: string): string[] {
     'audio': ['.wav', '.mp3', '.ogg', '.aiff', '.aif'],
     'animation': ['.anim'],
     'animator': ['.controller'],
-    'shader': ['.shader', '.compute', '.cginc']
+    'shader': ['.shader', '.compute', '.cginc'],
+    'assembly definition': ['.asmdef', '.asmref']
   };
   
   return extensionMap[type] || [];
 }
 
 // Handler function to process filesystem tools
-export async function handleFilesystemTool(name: string, args: any, projectPath: string) {
+export async function handleFilesystemTool(name: string, args: any, projectPath: string, wsHandler?: WebSocketHandler) {
   try {
     switch (name) {
       case "read_file": {
@@ -391,13 +609,16 @@ export async function handleFilesystemTool(name: string, args: any, projectPath:
         
         const validPath = await validatePath(parsed.data.path, projectPath);
         
-        // Ensure directory exists
-        const dirPath = path.dirname(validPath);
-        await fs.mkdir(dirPath, { recursive: true });
+        const { change } = await getJournal(projectPath).record('write_file', [validPath], async () => {
+          // Ensure directory exists
+          const dirPath = path.dirname(validPath);
+          await fs.mkdir(dirPath, { recursive: true });
         
-        await fs.writeFile(validPath, parsed.data.content, "utf-8");
+          await fs.writeFile(validPath, parsed.data.content, "utf-8");
+        });
+        const compilation = await waitForScriptCompilation(parsed.data.waitForCompilation, validPath, wsHandler);
         return { 
-          content: [{ type: "text", text: `Successfully wrote to ${parsed.data.path}` }]
+          content: [{ type: "text", text: `Successfully wrote to ${parsed.data.path}${describeJournaled(change)}${compilation}` }]
         };
       }
 
@@ -406,8 +627,18 @@ export async function handleFilesystemTool(name: string, args: any, projectPath:
         if (!parsed.success) return invalidArgsResponse(parsed.error);
         
         const validPath = await validatePath(parsed.data.path, projectPath);
-        const result = await applyFileEdits(validPath, parsed.data.edits, parsed.data.dryRun);
-        return { content: [{ type: "text", text: result }] };
+        if (parsed.data.dryRun) {
+          const result = await applyFileEdits(validPath, parsed.data.edits, true);
+          return { content: [{ type: "text", text: result }] };
+        }
+        
+        const { result, change } = await getJournal(projectPath).record('edit_file', [validPath],
+          () => applyFileEdits(validPath, parsed.data.edits));
+        const journaled = change ? `Journaled as change ${change.id} (undo with revert_change).` : '';
+        const compilation = change
+          ? await waitForScriptCompilation(parsed.data.waitForCompilation, validPath, wsHandler)
+          : '';
+        return { content: [{ type: "text", text: result + journaled + compilation }] };
       }
 
       case "list_directory": {
@@ -446,6 +677,37 @@ export async function handleFilesystemTool(name: string, args: any, projectPath:
         };
       }
 
+      case "grep_files": {
+        const parsed = GrepFilesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { pattern, regex, caseSensitive, ...options } = parsed.data;
+        let matcher: RegExp;
+        try {
+          matcher = new RegExp(regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), caseSensitive ? '' : 'i');
+        } catch (error) {
+          return invalidArgsResponse(getErrorMessage(error));
+        }
+        
+        const validPath = await validatePath(parsed.data.path, projectPath);
+        const result = await grepFiles(validPath, projectPath, matcher, options);
+        
+        const summary = result.matchCount > 0
+          ? `Found ${result.matchCount} match${result.matchCount === 1 ? '' : 'es'} in ${result.matchedFileCount} of ${result.searchedFileCount} files searched`
+          : `No matches found in ${result.searchedFileCount} files searched`;
+        const notes = [
+          result.skippedFileCount > 0 ? `${result.skippedFileCount} binary or oversized files skipped` : '',
+          result.truncated ? `stopped after ${parsed.data.maxResults} matches, raise maxResults or narrow the search` : ''
+        ].filter(Boolean);
+        
+        return {
+          content: [{
+            type: "text",
+            text: [summary + (notes.length > 0 ? ` (${notes.join('; ')})` : ''), ...result.lines].join('\n')
+          }]
+        };
+      }
+
       case "get_file_info": {
         const parsed = GetFileInfoArgsSchema.safeParse(args);
         if (!parsed.success) return invalidArgsResponse(parsed.error);
@@ -489,6 +751,685 @@ export async function handleFilesystemTool(name: string, args: any, projectPath:
         };
       }
 
+      case "inspect_asset_file": {
+        const parsed = InspectAssetFileArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const validPath = await validatePath(parsed.data.path, projectPath);
+        const documents = parseUnityYaml(await fs.readFile(validPath, "utf-8"));
+        const inspection: YamlAssetInspection = {
+          path: parsed.data.path,
+          ...inspectUnityYaml(documents, {
+            includeProperties: parsed.data.includeProperties,
+            maxDepth: parsed.data.maxDepth
+          })
+        };
+        
+        return { content: [{ type: "text", text: JSON.stringify(inspection, null, 2) }] };
+      }
+
+      case "find_references": {
+        const parsed = FindReferencesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const index = getGuidIndex(projectPath);
+        let guid = parsed.data.guid?.toLowerCase();
+        if (!guid) {
+          if (!parsed.data.path) {
+            return invalidArgsResponse('Either path or guid is required');
+          }
+          const assetPath = await validatePath(parsed.data.path, projectPath);
+          guid = await index.getGuid(path.relative(projectPath, assetPath));
+          if (!guid) {
+            throw new Error(`No .meta file with a GUID found for ${parsed.data.path}`);
+          }
+        }
+        
+        const searchPath = await validatePath(parsed.data.searchPath, projectPath);
+        const files = await findReferences(guid, searchPath, projectPath);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              asset: { guid, path: await index.getPath(guid) },
+              fileCount: files.length,
+              referenceCount: files.reduce((total, file) => total + file.references.length, 0),
+              files
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "find_unused_assets": {
+        const parsed = FindUnusedAssetsArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const scopePath = await validatePath(parsed.data.path, projectPath);
+        const { projectRootPath } = getProjectPaths();
+        const scan = await findUnusedAssets(projectPath, projectRootPath, path.relative(projectPath, scopePath), parsed.data.includeDisabledScenes);
+        
+        const wantedTypes = parsed.data.assetTypes?.map(type => type.toLowerCase());
+        const assets = scan.unused
+          .map(asset => ({ ...asset, type: getUnityAssetType(asset.path) }))
+          .filter(asset => !wantedTypes || wantedTypes.some(type =>
+            asset.type.toLowerCase() === type ||
+            getFileExtensionsForType(type).includes(path.extname(asset.path).toLowerCase())
+          ));
+        
+        const byType: Record<string, { count: number, size: number }> = {};
+        for (const asset of assets) {
+          byType[asset.type] ??= { count: 0, size: 0 };
+          byType[asset.type].count++;
+          byType[asset.type].size += asset.size;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              roots: scan.roots,
+              reachableCount: scan.reachableCount,
+              unusedCount: assets.length,
+              unusedSize: assets.reduce((total, asset) => total + asset.size, 0),
+              byType,
+              assets: assets.slice(0, parsed.data.limit),
+              ...(scan.warnings.length > 0 ? { warnings: scan.warnings } : {})
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "get_asset_dependencies": {
+        const parsed = GetAssetDependenciesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const assetPath = await validatePath(parsed.data.path, projectPath);
+        if (!await pathExists(assetPath)) throw new Error(`Asset not found: ${parsed.data.path}`);
+        const relativePath = path.relative(projectPath, assetPath).split(path.sep).join('/');
+        const graph = await buildDependencyGraph(relativePath, projectPath, getUnityAssetType, parsed.data.maxDepth);
+        
+        if (parsed.data.format === 'dot') {
+          return { content: [{ type: "text", text: dependencyGraphToDot(graph) }] };
+        }
+        
+        const dependencies = graph.assets.filter(asset => asset.path !== relativePath);
+        const byType: Record<string, { count: number, size: number }> = {};
+        for (const asset of dependencies) {
+          byType[asset.type] ??= { count: 0, size: 0 };
+          byType[asset.type].count++;
+          byType[asset.type].size += asset.size;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              asset: relativePath,
+              dependencyCount: dependencies.length,
+              // The asset itself plus each dependency counted once
+              totalSize: graph.assets.reduce((total, asset) => total + asset.size, 0),
+              byType,
+              dependencies: dependencies.sort((a, b) => b.size - a.size || a.path.localeCompare(b.path)),
+              ...(parsed.data.includeTree ? { tree: graph.root } : {}),
+              ...(graph.unresolved.length > 0 ? { unresolved: graph.unresolved } : {}),
+              ...(graph.binarySerialized.length > 0 ? { binarySerialized: graph.binarySerialized } : {})
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "create_script": {
+        const parsed = CreateScriptArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { name: className, path: folderArg } = parsed.data;
+        const folderPath = await validatePath(folderArg, projectPath);
+        const filePath = await validatePath(path.join(folderPath, `${className}.cs`), projectPath);
+        const relativePath = path.relative(projectPath, filePath).split(path.sep).join('/');
+        if (await pathExists(filePath)) {
+          throw new Error(`${relativePath} already exists, not overwriting it`);
+        }
+        
+        const { projectRootPath } = getProjectPaths();
+        const templatesPath = process.env.MCP_SCRIPT_TEMPLATES_PATH || path.join(projectRootPath, 'MCPScriptTemplates');
+        const template = await loadScriptTemplate(parsed.data.template, templatesPath);
+        
+        // Namespace: the assembly's rootNamespace (or the project's for Assembly-CSharp)
+        // followed by the folders between the assembly root and the script
+        const folder = path.relative(projectPath, folderPath).split(path.sep).join('/');
+        const projectFolder = ['Assets', folder].filter(Boolean).join('/');
+        const graph = await loadAssemblyGraph(projectRootPath);
+        const owner = findOwningAssembly(graph, projectFolder, true);
+        let namespace = parsed.data.namespace;
+        let namespaceSource = '';
+        if (namespace === undefined) {
+          const rootNamespace = owner.predefined ? await readProjectRootNamespace(projectRootPath) : owner.rootNamespace;
+          const assemblyFolder = owner.definedBy ? path.posix.dirname(owner.definedBy) : 'Assets';
+          namespace = rootNamespace
+            ? namespaceFromFolder(rootNamespace, projectFolder.slice(assemblyFolder.length + 1))
+            : '';
+          namespaceSource = owner.definedBy
+            ? ` (${rootNamespace ? 'rootNamespace' : 'no rootNamespace'} of ${owner.assembly} in ${owner.definedBy})`
+            : ` (${rootNamespace ? 'project root namespace' : 'no root namespace'} for ${owner.assembly})`;
+        }
+        
+        const title = className.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+        const content = renderScript(template, {
+          className,
+          fileName: className,
+          title,
+          menuName: parsed.data.menuName ?? (template.name === 'EditorWindow' ? `Window/${title}` : title),
+          targetType: parsed.data.targetType ?? (className.replace(/(Editor|Inspector)$/, '') || className),
+          ...parsed.data.parameters
+        }, namespace);
+        
+        const { change } = await getJournal(projectPath).record('create_script', [filePath], async () => {
+          await fs.mkdir(folderPath, { recursive: true });
+          // Exclusive create, in case the file appeared since the check above
+          await fs.writeFile(filePath, content, { encoding: 'utf-8', flag: 'wx' });
+        });
+        
+        const warnings: string[] = [];
+        if (template.editorOnly && !owner.editorOnly) {
+          warnings.push(`${template.name} scripts use UnityEditor, which is not available in player builds - move it to an Editor folder or an Editor-only assembly`);
+        }
+        const ownerDefinition = graph.assemblies.find(assembly => assembly.name === owner.assembly);
+        if (template.name === 'Test' && !ownerDefinition?.testAssembly) {
+          warnings.push('Tests only compile in an assembly definition that references UnityEngine.TestRunner and UnityEditor.TestRunner (a test assembly)');
+        }
+        
+        const editorNote = parsed.data.waitForCompilation
+          ? await waitForScriptCompilation(true, filePath, wsHandler)
+          : refreshEditorAssets(parsed.data.refresh, projectPath, wsHandler);
+        const summary = `Created ${relativePath} from the ${template.source} ${template.name} template in ` +
+          `${namespace ? `namespace ${namespace}` : 'the global namespace'}${namespaceSource}` +
+          `${describeJournaled(change)}${editorNote}`;
+        return {
+          content: [{ type: "text", text: [summary, ...warnings.map(warning => `Warning: ${warning}`)].join('\n') }]
+        };
+      }
+
+      case "get_assembly_graph": {
+        const parsed = GetAssemblyGraphArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { projectRootPath } = getProjectPaths();
+        const graph = await loadAssemblyGraph(projectRootPath);
+        const listed: typeof graph = parsed.data.includePackageCache ? graph : {
+          ...graph,
+          assemblies: graph.assemblies.filter(assembly => assembly.source !== 'packageCache'),
+          assemblyReferences: graph.assemblyReferences.filter(reference => !reference.path.startsWith('Library/'))
+        };
+        
+        if (parsed.data.format === 'dot') {
+          return { content: [{ type: "text", text: assemblyGraphToDot(listed) }] };
+        }
+        
+        const assemblies = listed.assemblies.map(assembly => {
+          const resolved = assembly.references.map(reference => ({ reference, target: resolveAssemblyReference(graph, reference) }));
+          return {
+            ...assembly,
+            references: resolved.map(({ reference, target }) => target?.name ?? reference),
+            missingReferences: resolved.filter(({ target }) => !target).map(({ reference }) => reference),
+            referencedBy: graph.assemblies
+              .filter(other => other.references.some(reference => resolveAssemblyReference(graph, reference) === assembly))
+              .map(other => other.name),
+            // Folders outside the .asmdef's own that .asmref files add to the assembly
+            extraFolders: graph.assemblyReferences
+              .filter(reference => resolveAssemblyReference(graph, reference.reference) === assembly)
+              .map(reference => path.posix.dirname(reference.path))
+          };
+        });
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              assemblyCount: assemblies.length,
+              assemblies,
+              ...(listed.invalid.length > 0 ? { invalid: listed.invalid } : {})
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "which_assembly_owns": {
+        const parsed = WhichAssemblyOwnsArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { projectRootPath } = getProjectPaths();
+        const requested = parsed.data.path.replace(/\\/g, '/');
+        let absolutePath: string;
+        const packageRoot = requested.match(/^(Packages|Library\/PackageCache)(\/|$)/)?.[1];
+        if (packageRoot) {
+          absolutePath = path.resolve(projectRootPath, requested);
+          const rootPath = path.join(projectRootPath, packageRoot);
+          if (absolutePath !== rootPath && !absolutePath.startsWith(rootPath + path.sep)) {
+            throw new Error(`Access denied: Path ${parsed.data.path} is outside ${packageRoot}`);
+          }
+        } else {
+          absolutePath = await validatePath(requested.replace(/^Assets(\/|$)/, ''), projectPath);
+        }
+        
+        const isFolder = await fs.stat(absolutePath).then(stats => stats.isDirectory(), () => path.extname(absolutePath) === '');
+        const projectRelativePath = path.relative(projectRootPath, absolutePath).split(path.sep).join('/');
+        const graph = await loadAssemblyGraph(projectRootPath);
+        const ownership = findOwningAssembly(graph, projectRelativePath, isFolder);
+        const definition = ownership.predefined ? undefined : graph.assemblies.find(assembly => assembly.name === ownership.assembly);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              path: projectRelativePath,
+              ...ownership,
+              ...(definition ? {
+                references: definition.references.map(reference => resolveAssemblyReference(graph, reference)?.name ?? reference),
+                includePlatforms: definition.includePlatforms,
+                defineConstraints: definition.defineConstraints
+              } : {}),
+              ...(ownership.predefined ? {
+                note: 'Predefined assemblies reference every auto-referenced assembly definition, and cannot be referenced by assembly definitions'
+              } : {})
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "check_assembly_graph": {
+        const parsed = CheckAssemblyGraphArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { projectRootPath } = getProjectPaths();
+        const graph = await loadAssemblyGraph(projectRootPath);
+        const issues = checkAssemblyGraph(graph);
+        const result: Record<string, unknown> = {
+          assemblyCount: graph.assemblies.filter(assembly => assembly.source !== 'packageCache').length,
+          errorCount: issues.filter(issue => issue.severity === 'error').length,
+          warningCount: issues.filter(issue => issue.severity === 'warning').length,
+          issues
+        };
+        
+        if (parsed.data.addReferences.length > 0) {
+          const existing = new Set(issues.map(issue => issue.message));
+          const introduced = checkAssemblyGraph(withAddedReferences(graph, parsed.data.addReferences))
+            .filter(issue => !existing.has(issue.message));
+          result.addReferences = {
+            safe: !introduced.some(issue => issue.severity === 'error'),
+            introducedIssues: introduced
+          };
+        }
+        
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      }
+
+      case "get_project_settings": {
+        const parsed = GetProjectSettingsArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const settings = await readProjectSettings(getProjectPaths().projectRootPath, projectPath, parsed.data.sections);
+        return { content: [{ type: "text", text: JSON.stringify(settings, null, 2) }] };
+      }
+
+      case "get_build_scenes": {
+        const parsed = GetBuildScenesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const loaded = await loadBuildScenes(wsHandler);
+        const scenes = await describeBuildScenes(loaded.scenes, getProjectPaths().projectRootPath, projectPath);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ source: loaded.editor ? 'editor' : 'ProjectSettings/EditorBuildSettings.asset', scenes }, null, 2)
+          }]
+        };
+      }
+
+      case "set_build_scenes": {
+        const parsed = SetBuildScenesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const loaded = await loadBuildScenes(wsHandler);
+        const scenes: BuildSceneEntry[] = [];
+        for (const requested of parsed.data.scenes) {
+          const scene = { ...await resolveBuildScene(requested.path, projectPath), enabled: requested.enabled };
+          if (scenes.some(entry => isSameScene(entry, scene))) {
+            return invalidArgsResponse(`${scene.path} is listed more than once`);
+          }
+          // Keep the GUID of an existing entry in case the scene has no .meta file yet
+          scenes.push({ ...scene, guid: scene.guid ?? loaded.scenes.find(entry => isSameScene(entry, scene))?.guid });
+        }
+        
+        return saveBuildScenes('set_build_scenes', scenes, loaded,
+          `Set the build scene list to ${scenes.length} scene${scenes.length === 1 ? '' : 's'}`, projectPath, wsHandler);
+      }
+
+      case "add_build_scene": {
+        const parsed = AddBuildSceneArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const scene = { ...await resolveBuildScene(parsed.data.path, projectPath), enabled: parsed.data.enabled };
+        const loaded = await loadBuildScenes(wsHandler);
+        const scenes = [...loaded.scenes];
+        const existingIndex = scenes.findIndex(entry => isSameScene(entry, scene));
+        const existing = scenes[existingIndex];
+        
+        if (existing && parsed.data.index === undefined && existing.enabled === scene.enabled) {
+          const listed = await describeBuildScenes(scenes, getProjectPaths().projectRootPath, projectPath);
+          return { content: [{ type: "text", text: `${scene.path} is already in the build scene list\n\n${formatBuildScenes(listed)}` }] };
+        }
+        
+        if (existing) scenes.splice(existingIndex, 1);
+        const position = Math.min(parsed.data.index ?? (existing ? existingIndex : scenes.length), scenes.length);
+        scenes.splice(position, 0, { ...scene, guid: scene.guid ?? existing?.guid });
+        
+        return saveBuildScenes('add_build_scene', scenes, loaded,
+          existing ? `Updated ${scene.path} in the build scene list` : `Added ${scene.path} to the build scene list`,
+          projectPath, wsHandler);
+      }
+
+      case "reorder_build_scenes": {
+        const parsed = ReorderBuildScenesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const loaded = await loadBuildScenes(wsHandler);
+        const ordered: BuildSceneEntry[] = [];
+        for (const requested of parsed.data.scenes) {
+          const scene = await resolveBuildScene(requested, projectPath);
+          const entry = loaded.scenes.find(existing => isSameScene(existing, scene));
+          if (!entry) {
+            throw new Error(`${scene.path} is not in the build scene list - add it with add_build_scene`);
+          }
+          if (ordered.includes(entry)) {
+            return invalidArgsResponse(`${scene.path} is listed more than once`);
+          }
+          ordered.push(entry);
+        }
+        
+        const scenes = [...ordered, ...loaded.scenes.filter(entry => !ordered.includes(entry))];
+        return saveBuildScenes('reorder_build_scenes', scenes, loaded, 'Reordered the build scene list', projectPath, wsHandler);
+      }
+
+      case "list_packages": {
+        const parsed = ListPackagesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { projectRootPath } = getProjectPaths();
+        const manifest = await readPackageManifest(projectRootPath);
+        const lock = await readPackageLock(projectRootPath);
+        const packages = listPackages(manifest, lock, parsed.data.includeIndirect || parsed.data.name !== undefined);
+        const lockNote = lock ? undefined : 'Packages/packages-lock.json not found: resolved versions appear once Unity has resolved the packages';
+        
+        if (parsed.data.name !== undefined) {
+          const info = packages.find(entry => entry.name === parsed.data.name);
+          if (!info) throw new Error(`Package ${parsed.data.name} is not in Packages/manifest.json or packages-lock.json`);
+          const result = { ...info, tree: lock && info.resolved ? buildPackageTree(lock, info.name).dependencies ?? [] : undefined, note: lockNote };
+          return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        }
+        
+        const result = {
+          count: packages.length,
+          packages,
+          scopedRegistries: manifest.scopedRegistries,
+          note: lockNote
+        };
+        return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+      }
+
+      case "add_package":
+      case "set_package_version": {
+        const parsed = (name === "add_package" ? AddPackageArgsSchema : SetPackageVersionArgsSchema).safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { name: packageName, version } = parsed.data;
+        const invalid = validatePackageName(packageName) ?? classifyPackageVersion(version).error;
+        if (invalid) return invalidArgsResponse(invalid);
+        
+        const manifest = await readPackageManifest(getProjectPaths().projectRootPath);
+        const current = manifest.dependencies[packageName];
+        if (name === "add_package" && current !== undefined) {
+          throw new Error(`${packageName} is already in Packages/manifest.json at ${current} - use set_package_version to change it`);
+        }
+        if (name === "set_package_version" && current === undefined) {
+          throw new Error(`${packageName} is not in Packages/manifest.json - use add_package to add it`);
+        }
+        if (current === version) {
+          return { content: [{ type: "text", text: `${packageName} is already at ${version} in Packages/manifest.json` }] };
+        }
+        
+        const summary = current === undefined
+          ? `Added ${packageName} ${version} to Packages/manifest.json`
+          : `Changed ${packageName} from ${current} to ${version} in Packages/manifest.json`;
+        return writePackageManifest(name, manifest, setManifestDependency(manifest.text, packageName, version),
+          summary, parsed.data, projectPath, wsHandler);
+      }
+
+      case "remove_package": {
+        const parsed = RemovePackageArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const { projectRootPath } = getProjectPaths();
+        const manifest = await readPackageManifest(projectRootPath);
+        const lock = await readPackageLock(projectRootPath);
+        const info = listPackages(manifest, lock, true).find(entry => entry.name === parsed.data.name);
+        if (!info?.direct) {
+          const reason = info?.source === 'embedded'
+            ? 'it is embedded in the Packages folder - delete its folder instead'
+            : info?.requiredBy ? `it is installed as a dependency of ${info.requiredBy.join(', ')}` : 'no such package';
+          throw new Error(`${parsed.data.name} is not in Packages/manifest.json: ${reason}`);
+        }
+        
+        const stillRequiredBy = info.requiredBy?.filter(dependent => dependent !== info.name);
+        const summary = `Removed ${info.name} from Packages/manifest.json` +
+          (stillRequiredBy?.length ? ` (it stays installed as a dependency of ${stillRequiredBy.join(', ')})` : '');
+        return writePackageManifest(name, manifest, setManifestDependency(manifest.text, info.name, undefined),
+          summary, parsed.data, projectPath, wsHandler);
+      }
+
+      case "find_symbol": {
+        const parsed = FindSymbolArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const types = await getSymbolIndex(projectPath).types();
+        const symbols = findSymbols(types, parsed.data.name, parsed.data.kind, parsed.data.exact);
+        
+        return {
+          content: [{
+            type: "text",
+            text: symbols.length > 0
+              ? JSON.stringify({
+                  count: symbols.length,
+                  symbols: symbols.slice(0, parsed.data.limit)
+                }, null, 2)
+              : `No symbols matching "${parsed.data.name}" found`
+          }]
+        };
+      }
+
+      case "list_types_in_file": {
+        const parsed = ListTypesInFileArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const validPath = await validatePath(parsed.data.path, projectPath);
+        if (path.extname(validPath).toLowerCase() !== '.cs') {
+          return invalidArgsResponse(`${parsed.data.path} is not a C# script`);
+        }
+        
+        const relativePath = path.relative(projectPath, validPath).split(path.sep).join('/');
+        const types = scanCSharp(await fs.readFile(validPath, 'utf-8'), relativePath);
+        
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              path: relativePath,
+              types: parsed.data.includeMembers ? types : types.map(({ members, ...type }) => type)
+            }, null, 2)
+          }]
+        };
+      }
+
+      case "find_subclasses": {
+        const parsed = FindSubclassesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const types = await getSymbolIndex(projectPath).types();
+        const subclasses = findSubclasses(types, parsed.data.baseType, parsed.data.direct);
+        
+        return {
+          content: [{
+            type: "text",
+            text: subclasses.length > 0
+              ? JSON.stringify({ baseType: parsed.data.baseType, count: subclasses.length, types: subclasses }, null, 2)
+              : `No project types deriving from ${parsed.data.baseType} found`
+          }]
+        };
+      }
+
+      case "move_asset": {
+        const parsed = MoveAssetArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const sourcePath = await validatePath(parsed.data.source, projectPath);
+        const destinationPath = await validatePath(parsed.data.destination, projectPath);
+        const { result: movedMeta, change } = await recordMove('move_asset', sourcePath, destinationPath, projectPath);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `Successfully moved ${parsed.data.source} to ${parsed.data.destination}` +
+              (movedMeta ? ' (with its .meta file)' : ' (it had no .meta file)') +
+              describeJournaled(change) +
+              refreshEditorAssets(parsed.data.refresh, projectPath, wsHandler)
+          }]
+        };
+      }
+
+      case "rename_asset": {
+        const parsed = RenameAssetArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const newName = parsed.data.newName.trim();
+        if (!newName || /[\\/]/.test(newName) || newName === '.' || newName === '..') {
+          return invalidArgsResponse(`newName must be a plain file or folder name, got "${parsed.data.newName}"`);
+        }
+        
+        const sourcePath = await validatePath(parsed.data.path, projectPath);
+        const isDirectory = (await fs.stat(sourcePath)).isDirectory();
+        const extension = !isDirectory && !path.extname(newName) ? path.extname(sourcePath) : '';
+        const destinationPath = path.join(path.dirname(sourcePath), newName + extension);
+        const { result: movedMeta, change } = await recordMove('rename_asset', sourcePath, destinationPath, projectPath);
+        
+        return {
+          content: [{
+            type: "text",
+            text: `Successfully renamed ${parsed.data.path} to ${newName + extension}` +
+              (movedMeta ? ' (with its .meta file)' : ' (it had no .meta file)') +
+              describeJournaled(change) +
+              refreshEditorAssets(parsed.data.refresh, projectPath, wsHandler)
+          }]
+        };
+      }
+
+      case "delete_asset": {
+        const parsed = DeleteAssetArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const assetPath = await validatePath(parsed.data.path, projectPath);
+        if (isAssetsRoot(assetPath, projectPath)) {
+          throw new Error('Refusing to delete the Assets folder itself');
+        }
+        
+        const stats = await fs.stat(assetPath);
+        const { result: deletedMeta, change } = await getJournal(projectPath).record('delete_asset',
+          [assetPath, `${assetPath}.meta`],
+          async () => {
+            await fs.rm(assetPath, { recursive: stats.isDirectory() });
+            return fs.rm(`${assetPath}.meta`).then(() => true, () => false);
+          });
+        getGuidIndex(projectPath).invalidate();
+        
+        return {
+          content: [{
+            type: "text",
+            text: `Successfully deleted ${parsed.data.path}` +
+              (stats.isDirectory() ? ' and everything in it' : '') +
+              (deletedMeta ? ' (with its .meta file)' : ' (it had no .meta file)') +
+              describeJournaled(change) +
+              refreshEditorAssets(parsed.data.refresh, projectPath, wsHandler)
+          }]
+        };
+      }
+
+      case "list_changes": {
+        const parsed = ListChangesArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const journal = getJournal(projectPath);
+        const sessionId = parsed.data.sessionId || journal.sessionId;
+        const changes = await journal.getChanges(sessionId);
+        const otherSessions = (await journal.listSessions()).filter(session => session.id !== sessionId);
+        
+        const revertedBy = new Map<number, number>();
+        for (const change of changes) {
+          for (const id of change.reverts ?? []) revertedBy.set(id, change.id);
+        }
+        
+        const lines = [
+          `Session ${sessionId}${sessionId === journal.sessionId ? ' (current)' : ''}: ` +
+            `${changes.length} change${changes.length === 1 ? '' : 's'}` +
+            (changes.length > parsed.data.limit ? `, showing the latest ${parsed.data.limit}` : '')
+        ];
+        if (otherSessions.length > 0) {
+          lines.push(`Other sessions: ${otherSessions.map(session => `${session.id} (${session.changeCount})`).join(', ')}`);
+        }
+        
+        for (const change of changes.slice(-parsed.data.limit).reverse()) {
+          lines.push('', await formatChange(change, revertedBy.get(change.id), parsed.data.includeDiffs, journal, sessionId));
+        }
+        
+        return { content: [{ type: "text", text: lines.join('\n') }] };
+      }
+
+      case "revert_change": {
+        const parsed = RevertChangeArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const change = await getJournal(projectPath).revert([parsed.data.id], parsed.data.sessionId, parsed.data.force);
+        getGuidIndex(projectPath).invalidate();
+        
+        return {
+          content: [{
+            type: "text",
+            text: (change
+              ? `Reverted change ${parsed.data.id}: ${change.paths.map(p => p.path).join(', ')}${describeJournaled(change)}`
+              : `Change ${parsed.data.id} needed no revert - its files are already as they were before it`) +
+              refreshEditorAssets(parsed.data.refresh, projectPath, wsHandler)
+          }]
+        };
+      }
+
+      case "revert_session": {
+        const parsed = RevertSessionArgsSchema.safeParse(args);
+        if (!parsed.success) return invalidArgsResponse(parsed.error);
+        
+        const journal = getJournal(projectPath);
+        const sessionId = parsed.data.sessionId || journal.sessionId;
+        const change = await journal.revert('all', sessionId, parsed.data.force);
+        getGuidIndex(projectPath).invalidate();
+        
+        return {
+          content: [{
+            type: "text",
+            text: (change
+              ? `Reverted session ${sessionId}, restoring ${change.paths.map(p => p.path).join(', ')}${describeJournaled(change)}`
+              : `Nothing to revert in session ${sessionId}`) +
+              refreshEditorAssets(parsed.data.refresh, projectPath, wsHandler)
+          }]
+        };
+      }
+
       default:
         return {
           content: [{ type: "text", text: `Unknown tool: ${name}` }],
@@ -503,6 +1444,293 @@ export async function handleFilesystemTool(name: string, args: any, projectPath:
   }
 }
 
+function isAssetsRoot(resolvedPath: string, projectPath: string): boolean {
+  return path.resolve(resolvedPath) === path.resolve(projectPath);
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+// Move an asset and its .meta file, keeping its GUID. A folder's contents move with it,
+// metas included. Returns whether a .meta file was moved.
+async function moveAssetWithMeta(sourcePath: string, destinationPath: string, projectPath: string): Promise<boolean> {
+  if (isAssetsRoot(sourcePath, projectPath) || isAssetsRoot(destinationPath, projectPath)) {
+    throw new Error('The Assets folder itself cannot be moved or replaced');
+  }
+  if (!await pathExists(sourcePath)) {
+    throw new Error(`Asset not found: ${sourcePath}`);
+  }
+  // On a case-insensitive file system the destination of Player.cs -> player.cs is the source itself
+  const caseOnly = await isCaseOnlyRename(sourcePath, destinationPath);
+  if (!caseOnly && (await pathExists(destinationPath) || await pathExists(`${destinationPath}.meta`))) {
+    throw new Error(`Destination already exists: ${destinationPath}`);
+  }
+  if (destinationPath.startsWith(sourcePath + path.sep)) {
+    throw new Error('Cannot move a folder into itself');
+  }
+
+  await fs.mkdir(path.dirname(destinationPath), { recursive: true });
+  await renamePath(sourcePath, destinationPath, caseOnly);
+
+  let movedMeta = false;
+  if (await pathExists(`${sourcePath}.meta`)) {
+    try {
+      await renamePath(`${sourcePath}.meta`, `${destinationPath}.meta`, caseOnly);
+      movedMeta = true;
+    } catch (error) {
+      // Put the asset back rather than leave it separated from its GUID
+      await renamePath(destinationPath, sourcePath, caseOnly);
+      throw error;
+    }
+  }
+
+  getGuidIndex(projectPath).invalidate();
+  return movedMeta;
+}
+
+async function isCaseOnlyRename(sourcePath: string, destinationPath: string): Promise<boolean> {
+  if (sourcePath === destinationPath || sourcePath.toLowerCase() !== destinationPath.toLowerCase()) return false;
+  try {
+    const [source, destination] = await Promise.all([fs.stat(sourcePath, { bigint: true }), fs.stat(destinationPath, { bigint: true })]);
+    return source.dev === destination.dev && source.ino === destination.ino;
+  } catch {
+    return false;
+  }
+}
+
+// A case-only rename goes through a temporary name, as some file systems ignore it otherwise
+async function renamePath(from: string, to: string, caseOnly: boolean): Promise<void> {
+  if (!caseOnly) return fs.rename(from, to);
+
+  // Hidden, so Unity doesn't import it in the meantime
+  const temporary = path.join(path.dirname(from), `.${path.basename(from)}.${process.pid}.tmp`);
+  await fs.rename(from, temporary);
+  try {
+    await fs.rename(temporary, to);
+  } catch (error) {
+    await fs.rename(temporary, from);
+    throw error;
+  }
+}
+
+function recordMove(tool: string, sourcePath: string, destinationPath: string, projectPath: string) {
+  return getJournal(projectPath).record(tool,
+    [sourcePath, `${sourcePath}.meta`, destinationPath, `${destinationPath}.meta`],
+    () => moveAssetWithMeta(sourcePath, destinationPath, projectPath));
+}
+
+// A scene given to the build scene tools, under the "Assets/..." path Unity lists it by
+async function resolveBuildScene(requested: string, projectPath: string): Promise<BuildSceneEntry> {
+  const absolutePath = await validatePath(requested.replace(/\\/g, '/').replace(/^Assets(\/|$)/, ''), projectPath);
+  if (path.extname(absolutePath).toLowerCase() !== '.unity') {
+    throw new Error(`Not a scene file: ${requested}`);
+  }
+  if (!await pathExists(absolutePath)) {
+    throw new Error(`Scene not found: ${requested}`);
+  }
+  const relativePath = path.relative(projectPath, absolutePath).split(path.sep).join('/');
+  return { path: `Assets/${relativePath}`, enabled: true, guid: await getGuidIndex(projectPath).getGuid(relativePath) };
+}
+
+function isSameScene(a: BuildSceneEntry, b: BuildSceneEntry): boolean {
+  return (!!a.guid && a.guid === b.guid) || a.path === b.path;
+}
+
+// The build scene list as the connected editor has it (it may not be saved yet), or from disk
+async function loadBuildScenes(wsHandler?: WebSocketHandler) {
+  const settingsPath = path.join(getProjectPaths().projectRootPath, 'ProjectSettings', 'EditorBuildSettings.asset');
+  const editor = wsHandler ? findProjectEditor(wsHandler) : undefined;
+  if (editor) {
+    return { settingsPath, editor, scenes: (await wsHandler!.getBuildScenes(editor.id)).buildScenes };
+  }
+  
+  const content = await fs.readFile(settingsPath, 'utf-8').catch(() => undefined);
+  return { settingsPath, editor, scenes: content ? readBuildScenes(content) : [] };
+}
+
+// Apply the list through the editor when it is connected, so it takes effect right away,
+// otherwise edit EditorBuildSettings.asset. Either way the file change is journaled.
+async function saveBuildScenes(
+  tool: string,
+  scenes: BuildSceneEntry[],
+  loaded: Awaited<ReturnType<typeof loadBuildScenes>>,
+  summary: string,
+  projectPath: string,
+  wsHandler?: WebSocketHandler
+) {
+  const { settingsPath, editor } = loaded;
+  const { change, result: saved } = await getJournal(projectPath).record(tool, [settingsPath], async () => {
+    if (editor) {
+      return (await wsHandler!.setBuildScenes(scenes, editor.id)).buildScenes;
+    }
+    
+    const content = await fs.readFile(settingsPath, 'utf-8').catch(() => undefined);
+    if (content !== undefined && !content.startsWith('%YAML')) {
+      throw new Error('ProjectSettings/EditorBuildSettings.asset is binary serialized - connect the Unity Editor or set Asset Serialization to Force Text');
+    }
+    await fs.mkdir(path.dirname(settingsPath), { recursive: true });
+    await fs.writeFile(settingsPath, writeBuildScenes(content, scenes), 'utf-8');
+    return scenes;
+  });
+  
+  const listed = await describeBuildScenes(saved, getProjectPaths().projectRootPath, projectPath);
+  const where = editor ? ' in the Unity Editor' : ' in ProjectSettings/EditorBuildSettings.asset (no Unity Editor with this project open is connected)';
+  return { content: [{ type: "text", text: `${summary}${where}${describeJournaled(change)}\n\n${formatBuildScenes(listed)}` }] };
+}
+
+function formatBuildScenes(scenes: DescribedBuildScene[]): string {
+  if (scenes.length === 0) return 'The build scene list is empty';
+  return scenes.map(scene =>
+    `[${scene.buildIndex ?? '-'}] ${scene.path}` +
+    (scene.enabled ? '' : ' (disabled)') +
+    (scene.missing ? ' (missing)' : '')
+  ).join('\n');
+}
+
+// Show the manifest change as a diff, then write it through the journal unless it is a dry run
+async function writePackageManifest(
+  tool: string,
+  manifest: PackageManifest,
+  newText: string,
+  summary: string,
+  options: { dryRun: boolean, refresh: boolean },
+  projectPath: string,
+  wsHandler?: WebSocketHandler
+) {
+  const diff = formatDiff(createUnifiedDiff(manifest.text, newText, 'Packages/manifest.json'));
+  if (options.dryRun) {
+    return { content: [{ type: "text", text: diff }] };
+  }
+  
+  const { change } = await getJournal(projectPath).record(tool, [manifest.path],
+    () => fs.writeFile(manifest.path, newText, 'utf-8'));
+  return {
+    content: [{
+      type: "text",
+      text: diff + summary + describeJournaled(change) + refreshEditorAssets(options.refresh, projectPath, wsHandler)
+    }]
+  };
+}
+
+function getJournal(projectPath: string) {
+  return getChangeJournal(getProjectPaths().projectRootPath, projectPath);
+}
+
+function describeJournaled(change: ChangeRecord | undefined): string {
+  return change ? `. Journaled as change ${change.id} (undo with revert_change)` : '';
+}
+
+// Files larger than this are still journaled, but not diffed
+const MAX_DIFF_BYTES = 256 * 1024;
+
+async function formatChange(
+  change: ChangeRecord,
+  revertedBy: number | undefined,
+  includeDiffs: boolean,
+  journal: ReturnType<typeof getJournal>,
+  sessionId: string
+): Promise<string> {
+  const lines = [
+    `#${change.id} ${change.tool} at ${change.timestamp}` +
+      (change.reverts ? ` (reverts ${change.reverts.map(id => `#${id}`).join(', ')})` : '') +
+      (revertedBy ? ` [reverted by #${revertedBy}]` : '')
+  ];
+
+  for (const changed of change.paths) {
+    lines.push(`- ${changed.path}: ${describeTransition(changed.before, changed.after)}`);
+    if (!includeDiffs) continue;
+
+    const before = flattenFiles(changed.path, changed.before);
+    const after = flattenFiles(changed.path, changed.after);
+    for (const file of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+      const oldFile = before.get(file);
+      const newFile = after.get(file);
+      if (oldFile?.hash === newFile?.hash) continue;
+
+      if ((oldFile?.size ?? 0) > MAX_DIFF_BYTES || (newFile?.size ?? 0) > MAX_DIFF_BYTES) {
+        lines.push(`  ${file}: ${oldFile?.size ?? 0} -> ${newFile?.size ?? 0} bytes (too large to diff)`);
+        continue;
+      }
+      const oldText = oldFile ? (await journal.readObject(oldFile.hash, sessionId)).toString('utf-8') : '';
+      const newText = newFile ? (await journal.readObject(newFile.hash, sessionId)).toString('utf-8') : '';
+      if (oldText.includes('\0') || newText.includes('\0')) {
+        lines.push(`  ${file}: binary, ${oldFile?.size ?? 0} -> ${newFile?.size ?? 0} bytes`);
+        continue;
+      }
+      lines.push(formatDiff(createUnifiedDiff(oldText, newText, file)).trimEnd());
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function describeTransition(before: PathState, after: PathState): string {
+  const noun = (state: PathState) => state.kind === 'directory' ? 'folder' : 'file';
+  if (before.kind === 'absent') return `${noun(after)} created`;
+  if (after.kind === 'absent') return `${noun(before)} deleted`;
+  if (before.kind !== after.kind) return `${noun(before)} replaced by a ${noun(after)}`;
+  return 'modified';
+}
+
+// Ask the Unity Editor for this project to import the changes, if one is connected.
+// Returns a note to append to the tool result.
+function refreshEditorAssets(refresh: boolean, projectPath: string, wsHandler?: WebSocketHandler): string {
+  if (!refresh || !wsHandler) return '';
+
+  const target = findProjectEditor(wsHandler);
+  if (!target) {
+    return '. No Unity Editor with this project open is connected - the change will be imported when Unity next refreshes.';
+  }
+
+  try {
+    wsHandler.refreshAssetDatabase(target.id);
+    return '. Asked the Unity Editor to refresh the AssetDatabase.';
+  } catch (error) {
+    return `. Could not refresh the AssetDatabase: ${getErrorMessage(error)}`;
+  }
+}
+
+// The connected editor that has this project open. The only connected editor is used when it
+// hasn't reported its project, but never one that has another project open.
+function findProjectEditor(wsHandler: WebSocketHandler) {
+  const { projectRootPath } = getProjectPaths();
+  const connected = wsHandler.listInstances().filter(instance => instance.connected);
+  const isUnknown = (projectPath?: string) => !projectPath || projectPath === 'Unknown';
+  return connected.find(instance =>
+    !isUnknown(instance.projectPath) && path.resolve(instance.projectPath!) === path.resolve(projectRootPath)
+  ) ?? (connected.length === 1 && isUnknown(connected[0].projectPath) ? connected[0] : undefined);
+}
+
+// Files whose changes make the Unity Editor recompile scripts
+const SCRIPT_EXTENSIONS = new Set(['.cs', '.asmdef', '.asmref', '.rsp']);
+
+// Let the editor import a changed script and wait for it to compile; returns a note with
+// the outcome and any compiler diagnostics to append to the tool result
+async function waitForScriptCompilation(wait: boolean, filePath: string, wsHandler?: WebSocketHandler): Promise<string> {
+  if (!wait || !wsHandler || !SCRIPT_EXTENSIONS.has(path.extname(filePath).toLowerCase())) return '';
+
+  const target = findProjectEditor(wsHandler);
+  if (!target) {
+    return '\nNo Unity Editor with this project open is connected - could not wait for compilation.';
+  }
+
+  try {
+    const result = await wsHandler.waitForCompilation({ refresh: true }, target.id);
+    if (result.status === 'notStarted') {
+      return '\nThe Unity Editor did not start compiling (the scripts may already be up to date).';
+    }
+
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+    const seconds = (result.durationMs / 1000).toFixed(1);
+    const diagnostics = [...result.errors, ...result.warnings].map(formatCompilerDiagnostic);
+    return `\nCompilation ${result.status} in ${seconds}s with ${plural(result.errors.length, 'error')} and ` +
+      `${plural(result.warnings.length, 'warning')}${diagnostics.length > 0 ? ':\n' + diagnostics.join('\n') : '.'}`;
+  } catch (error) {
+    return `\nCould not wait for compilation: ${getErrorMessage(error)}`;
+  }
+}
+
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : String(error);
 }
@@ -526,7 +1754,7 @@ function formatDirectoryEntry(entry: Dirent, basePath: string): string {
   }
 }
 
-async function findAssetsByType(
+export async function findAssetsByType(
   assetType: string, 
   searchPath: string, 
   maxDepth: number, 
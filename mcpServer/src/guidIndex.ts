@@ -0,0 +1,151 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface GuidIndexEntry {
+  guid: string;
+  // Path relative to the Assets folder, with forward slashes
+  path: string;
+  isFolder: boolean;
+}
+
+interface MetaFileState extends GuidIndexEntry {
+  mtimeMs: number;
+}
+
+// Rescans within this window reuse the previous result, so a burst of lookups walks the project once
+const REFRESH_INTERVAL_MS = 2000;
+
+const GUID_PATTERN = /^guid:\s*([0-9a-fA-F]{32})\s*$/m;
+
+// GUID <-> asset path map built from the .meta files under the Assets folder. Refreshes
+// are incremental: only .meta files whose modification time changed are re-read.
+export class GuidIndex {
+  private metaFiles = new Map<string, MetaFileState>();
+  private byGuid = new Map<string, GuidIndexEntry>();
+  private refreshing: Promise<void> | null = null;
+  private lastRefresh: number = 0;
+
+  constructor(private readonly assetsPath: string) {}
+
+  public async getPath(guid: string): Promise<string | undefined> {
+    await this.refresh();
+    return this.byGuid.get(guid.toLowerCase())?.path;
+  }
+
+  public async getGuid(assetPath: string): Promise<string | undefined> {
+    await this.refresh();
+    const normalized = toIndexPath(assetPath);
+    return this.metaFiles.get(normalized)?.guid;
+  }
+
+  public async entries(): Promise<GuidIndexEntry[]> {
+    await this.refresh();
+    return [...this.byGuid.values()];
+  }
+
+  // Force the next lookup to rescan, e.g. after the server moved or deleted assets itself
+  public invalidate(): void {
+    this.lastRefresh = 0;
+  }
+
+  public async refresh(): Promise<void> {
+    if (this.refreshing) return this.refreshing;
+    if (Date.now() - this.lastRefresh < REFRESH_INTERVAL_MS) return;
+
+    this.refreshing = this.scan().finally(() => {
+      this.lastRefresh = Date.now();
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async scan(): Promise<void> {
+    const seen = new Set<string>();
+
+    for (const metaPath of await findMetaFiles(this.assetsPath)) {
+      const assetPath = toIndexPath(path.relative(this.assetsPath, metaPath.slice(0, -'.meta'.length)));
+      seen.add(assetPath);
+
+      let stats;
+      try {
+        stats = await fs.stat(metaPath);
+      } catch {
+        continue;
+      }
+
+      const cached = this.metaFiles.get(assetPath);
+      if (cached && cached.mtimeMs === stats.mtimeMs) continue;
+
+      try {
+        const content = await fs.readFile(metaPath, 'utf-8');
+        const guid = content.match(GUID_PATTERN)?.[1]?.toLowerCase();
+        if (!guid) continue;
+
+        if (cached) this.byGuid.delete(cached.guid);
+        const entry: MetaFileState = {
+          guid,
+          path: assetPath,
+          isFolder: /^folderAsset:\s*yes/m.test(content),
+          mtimeMs: stats.mtimeMs
+        };
+        this.metaFiles.set(assetPath, entry);
+        this.byGuid.set(guid, { guid, path: assetPath, isFolder: entry.isFolder });
+      } catch (error) {
+        console.error(`[Unity MCP] Error reading meta file ${metaPath}:`, error);
+      }
+    }
+
+    // Forget assets whose .meta file is gone
+    for (const [assetPath, state] of this.metaFiles) {
+      if (!seen.has(assetPath)) {
+        this.metaFiles.delete(assetPath);
+        if (this.byGuid.get(state.guid)?.path === assetPath) {
+          this.byGuid.delete(state.guid);
+        }
+      }
+    }
+  }
+}
+
+const indexes = new Map<string, GuidIndex>();
+
+// One shared index per Assets folder, so it is only built once per server
+export function getGuidIndex(assetsPath: string): GuidIndex {
+  let index = indexes.get(assetsPath);
+  if (!index) {
+    index = new GuidIndex(assetsPath);
+    indexes.set(assetsPath, index);
+  }
+  return index;
+}
+
+function toIndexPath(assetPath: string): string {
+  return assetPath.split(path.sep).join('/').replace(/^\/+|\/+$/g, '');
+}
+
+// Unity ignores hidden folders and folders ending in "~", so they have no meaningful .meta files
+export function isIgnoredByUnity(name: string): boolean {
+  return name.startsWith('.') || name.endsWith('~');
+}
+
+async function findMetaFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const results: string[] = [];
+  for (const entry of entries) {
+    if (isIgnoredByUnity(entry.name)) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      results.push(...await findMetaFiles(fullPath));
+    } else if (entry.name.endsWith('.meta')) {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
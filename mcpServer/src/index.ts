@@ -3,6 +3,8 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { WebSocketHandler } from './websocketHandler.js';
 import { registerTools } from './toolDefinitions.js';
+import { registerResources } from './resourceDefinitions.js';
+import { registerPrompts } from './promptDefinitions.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs';
@@ -15,7 +17,7 @@ class UnityMCPServer {
     // Initialize MCP Server
     this.server = new Server(
       { name: 'unity-mcp-server', version: '0.2.0' },
-      { capabilities: { tools: {} } }
+      { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {} } }
     );
 
     // Setup project paths and websocket
@@ -23,16 +25,44 @@ class UnityMCPServer {
     const projectRootPath = this.setupProjectPaths();
     
     // Initialize WebSocket Handler for Unity communication
-    this.wsHandler = new WebSocketHandler(wsPort);
+    this.wsHandler = new WebSocketHandler(wsPort, {
+      commandConcurrency: this.readIntegerSetting('MCP_COMMAND_CONCURRENCY', 1),
+      maxQueuedCommands: this.readIntegerSetting('MCP_COMMAND_QUEUE_SIZE', 20),
+      logStore: process.env.MCP_LOG_STORE === 'off' ? undefined : {
+        path: process.env.MCP_LOG_STORE_PATH || undefined,
+        fallbackProjectRoot: projectRootPath,
+        maxFileBytes: parseFloat(process.env.MCP_LOG_MAX_FILE_MB || '5') * 1024 * 1024,
+        maxFiles: parseInt(process.env.MCP_LOG_MAX_FILES || '20'),
+        maxAgeMs: parseFloat(process.env.MCP_LOG_MAX_AGE_DAYS || '7') * 24 * 60 * 60 * 1000
+      }
+    });
 
     // Register MCP tools
     registerTools(this.server, this.wsHandler);
     
+    // Register MCP resources
+    registerResources(this.server, this.wsHandler);
+    
+    // Register MCP prompts
+    registerPrompts(this.server, this.wsHandler);
+    
     // Error handling
     this.server.onerror = (error) => console.error('[MCP Error]', error);
     this.setupShutdownHandlers();
   }
 
+  // A malformed value stops the server at startup instead of silently misconfiguring it
+  private readIntegerSetting(name: string, defaultValue: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw.trim() === '') return defaultValue;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value)) {
+      throw new Error(`${name} must be a whole number, got "${raw}"`);
+    }
+    return value;
+  }
+
   private setupProjectPaths(): string {
     const __filename = fileURLToPath(import.meta.url);
     const __dirname = path.dirname(__filename);
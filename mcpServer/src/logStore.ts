@@ -0,0 +1,282 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { LogEntry } from './types.js';
+
+export interface LogStoreOptions {
+  // Start a new segment file once the current one reaches this size
+  maxFileBytes: number;
+  // Keep at most this many segment files
+  maxFiles: number;
+  // Delete segments whose newest entry is older than this
+  maxAgeMs: number;
+}
+
+export const DEFAULT_LOG_STORE_OPTIONS: LogStoreOptions = {
+  maxFileBytes: 5 * 1024 * 1024,
+  maxFiles: 20,
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000
+};
+
+export interface LogStoreQuery {
+  types?: string[];
+  timestampAfter?: string;
+  timestampBefore?: string;
+  // Only entries with a higher sequence number, returned oldest first
+  afterSequence?: number;
+  // Any further per-entry filtering (content filters etc.)
+  matches?: (entry: LogEntry) => boolean;
+  // Return only the newest `limit` matching entries (the oldest with afterSequence)
+  limit?: number;
+}
+
+// Index entry describing one JSONL segment file
+interface LogSegment {
+  file: string;
+  firstTimestamp: number;
+  lastTimestamp: number;
+  count: number;
+  size: number;
+  types: Record<string, number>;
+  // Highest entry sequence number in the file (absent for entries stored without one)
+  lastSequence?: number;
+}
+
+const INDEX_FILE = 'index.json';
+const FLUSH_DELAY_MS = 500;
+
+// Append-only, rotating JSONL store for Unity log entries. Writes are batched and
+// serialized; queries use the segment index to skip files outside the requested range.
+export class LogStore {
+  private segments: LogSegment[] = [];
+  private pending: LogEntry[] = [];
+  private ready: Promise<void>;
+  private writeChain: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private segmentCounter: number = 0;
+
+  constructor(
+    public readonly directory: string,
+    private readonly options: LogStoreOptions = DEFAULT_LOG_STORE_OPTIONS
+  ) {
+    this.ready = this.loadIndex();
+  }
+
+  public append(entry: LogEntry): void {
+    this.pending.push(entry);
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  public async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.writeChain = this.writeChain.then(() => this.writePending());
+    return this.writeChain;
+  }
+
+  public async query(query: LogStoreQuery = {}): Promise<LogEntry[]> {
+    await this.flush();
+
+    const after = query.timestampAfter ? Date.parse(query.timestampAfter) : undefined;
+    const before = query.timestampBefore ? Date.parse(query.timestampBefore) : undefined;
+    const afterSequence = query.afterSequence;
+    const forward = afterSequence !== undefined;
+
+    // Walk towards the requested end (newest, or oldest after a sequence) so a limited query can stop early
+    const candidates = this.segments
+      .filter(segment => after === undefined || segment.lastTimestamp >= after)
+      .filter(segment => before === undefined || segment.firstTimestamp <= before)
+      .filter(segment => !query.types || query.types.some(type => segment.types[type] > 0))
+      .filter(segment => !forward || (segment.lastSequence ?? 0) > afterSequence);
+    if (!forward) {
+      candidates.reverse();
+    }
+
+    let results: LogEntry[] = [];
+
+    for (const segment of candidates) {
+      const entries = (await this.readSegment(segment)).filter(entry => {
+        if (query.types && !query.types.includes(entry.logType)) return false;
+        if (forward && (entry.sequence ?? 0) <= afterSequence) return false;
+
+        const timestamp = Date.parse(entry.timestamp);
+        if (after !== undefined && timestamp < after) return false;
+        if (before !== undefined && timestamp > before) return false;
+
+        return !query.matches || query.matches(entry);
+      });
+
+      results = forward ? results.concat(entries) : entries.concat(results);
+      if (query.limit !== undefined && results.length >= query.limit) break;
+    }
+
+    if (query.limit === undefined) return results;
+    return forward ? results.slice(0, query.limit) : results.slice(-query.limit);
+  }
+
+  // Highest sequence number stored, 0 when there is none
+  public async getLastSequence(): Promise<number> {
+    await this.ready;
+    return Math.max(0, ...this.segments.map(segment => segment.lastSequence ?? 0));
+  }
+
+  public get entryCount(): number {
+    return this.segments.reduce((total, segment) => total + segment.count, 0) + this.pending.length;
+  }
+
+  private async writePending(): Promise<void> {
+    await this.ready;
+    if (this.pending.length === 0) return;
+
+    const entries = this.pending;
+    this.pending = [];
+
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+
+      let segment = this.getWritableSegment();
+      let chunk = '';
+
+      for (const entry of entries) {
+        if (segment.size >= this.options.maxFileBytes) {
+          await fs.appendFile(path.join(this.directory, segment.file), chunk, 'utf-8');
+          chunk = '';
+          segment = this.startSegment();
+        }
+
+        const line = JSON.stringify(entry) + '\n';
+        chunk += line;
+        this.recordEntry(segment, entry, Buffer.byteLength(line));
+      }
+
+      await fs.appendFile(path.join(this.directory, segment.file), chunk, 'utf-8');
+      await this.prune();
+      await this.saveIndex();
+    } catch (error) {
+      // Persisting logs must never break the live log flow
+      console.error(`[Unity MCP] Error writing log store in ${this.directory}:`, error);
+    }
+  }
+
+  private getWritableSegment(): LogSegment {
+    const current = this.segments[this.segments.length - 1];
+    return current && current.size < this.options.maxFileBytes ? current : this.startSegment();
+  }
+
+  private startSegment(): LogSegment {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const segment: LogSegment = {
+      file: `unity-log-${stamp}-${this.segmentCounter++}.jsonl`,
+      firstTimestamp: Number.POSITIVE_INFINITY,
+      lastTimestamp: Number.NEGATIVE_INFINITY,
+      count: 0,
+      size: 0,
+      types: {}
+    };
+    this.segments.push(segment);
+    return segment;
+  }
+
+  private recordEntry(segment: LogSegment, entry: LogEntry, size: number): void {
+    const parsed = Date.parse(entry.timestamp);
+    const timestamp = Number.isNaN(parsed) ? Date.now() : parsed;
+
+    segment.firstTimestamp = Math.min(segment.firstTimestamp, timestamp);
+    segment.lastTimestamp = Math.max(segment.lastTimestamp, timestamp);
+    segment.count++;
+    segment.size += size;
+    segment.types[entry.logType] = (segment.types[entry.logType] ?? 0) + 1;
+    if (entry.sequence !== undefined) {
+      segment.lastSequence = Math.max(segment.lastSequence ?? 0, entry.sequence);
+    }
+  }
+
+  // Drop segments that are too old, then the oldest ones beyond the file limit
+  private async prune(): Promise<void> {
+    const cutoff = Date.now() - this.options.maxAgeMs;
+    const current = this.segments[this.segments.length - 1];
+
+    const expired = this.segments.filter(segment => segment !== current && segment.lastTimestamp < cutoff);
+    let kept = this.segments.filter(segment => !expired.includes(segment));
+
+    const excess = Math.max(0, kept.length - this.options.maxFiles);
+    const removed = expired.concat(kept.slice(0, excess));
+    kept = kept.slice(excess);
+
+    for (const segment of removed) {
+      await fs.unlink(path.join(this.directory, segment.file)).catch(() => undefined);
+    }
+    this.segments = kept;
+  }
+
+  private async readSegment(segment: LogSegment): Promise<LogEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(this.directory, segment.file), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: LogEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Skip a partially written line
+      }
+    }
+    return entries;
+  }
+
+  private async saveIndex(): Promise<void> {
+    await fs.writeFile(
+      path.join(this.directory, INDEX_FILE),
+      JSON.stringify({ version: 1, segments: this.segments }, null, 2),
+      'utf-8'
+    );
+  }
+
+  private async loadIndex(): Promise<void> {
+    try {
+      const index = JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf-8'));
+      if (Array.isArray(index.segments)) {
+        this.segments = index.segments;
+        return;
+      }
+    } catch {
+      // Missing or unreadable index - rebuild it from the segment files below
+    }
+
+    try {
+      const files = (await fs.readdir(this.directory))
+        .filter(file => file.endsWith('.jsonl'))
+        .sort();
+
+      for (const file of files) {
+        const segment: LogSegment = {
+          file,
+          firstTimestamp: Number.POSITIVE_INFINITY,
+          lastTimestamp: Number.NEGATIVE_INFINITY,
+          count: 0,
+          size: 0,
+          types: {}
+        };
+        for (const entry of await this.readSegment(segment)) {
+          this.recordEntry(segment, entry, Buffer.byteLength(JSON.stringify(entry) + '\n'));
+        }
+        this.segments.push(segment);
+      }
+    } catch {
+      // Directory does not exist yet - nothing has been stored
+    }
+  }
+}
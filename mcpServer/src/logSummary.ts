@@ -0,0 +1,74 @@
+import { LogEntry, LogGroup, LogSummary } from './types.js';
+
+// Frames for the logging call itself - they are the same for every message and
+// say nothing about where it came from
+const LOGGING_FRAME_PATTERN = /^UnityEngine\.(Debug|Logger|DebugLogHandler)[:.]/;
+
+// Replace the parts of a message that typically vary between repeats (ids, numbers,
+// quoted names) so "Object 123 not found" and "Object 456 not found" group together
+export function normalizeLogMessage(message: string): string {
+  return message
+    .replace(/\b[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\b/gi, '<guid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/"[^"\n]*"|'[^'\n]*'/g, '<str>')
+    .replace(/-?\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// First stack frame that isn't part of Unity's logging machinery
+export function getTopStackFrame(stackTrace: string): string {
+  const frames = (stackTrace || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+
+  return frames.find(frame => !LOGGING_FRAME_PATTERN.test(frame)) ?? frames[0] ?? '';
+}
+
+// Group log entries by type, normalized message and top stack frame, most frequent first
+export function summarizeLogs(logs: LogEntry[], maxGroups: number = 50): LogSummary {
+  const groups = new Map<string, LogGroup>();
+
+  for (const log of logs) {
+    const normalizedMessage = normalizeLogMessage(log.message);
+    const topFrame = getTopStackFrame(log.stackTrace);
+    const key = `${log.logType}\u0000${normalizedMessage}\u0000${topFrame}`;
+
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, {
+        logType: log.logType,
+        normalizedMessage,
+        topFrame,
+        count: 1,
+        firstTimestamp: log.timestamp,
+        lastTimestamp: log.timestamp,
+        message: log.message,
+        stackTrace: log.stackTrace
+      });
+      continue;
+    }
+
+    group.count++;
+    if (log.timestamp < group.firstTimestamp) {
+      group.firstTimestamp = log.timestamp;
+    }
+    if (log.timestamp >= group.lastTimestamp) {
+      // Keep the most recent occurrence as the representative
+      group.lastTimestamp = log.timestamp;
+      group.message = log.message;
+      group.stackTrace = log.stackTrace;
+    }
+  }
+
+  const sorted = [...groups.values()].sort((a, b) =>
+    b.count - a.count || b.lastTimestamp.localeCompare(a.lastTimestamp)
+  );
+
+  return {
+    totalEntries: logs.length,
+    groupCount: sorted.length,
+    groups: sorted.slice(0, maxGroups)
+  };
+}
@@ -0,0 +1,291 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// An entry of Packages/packages-lock.json, which Unity writes after resolving the manifest
+export interface LockedPackage {
+  version: string;
+  depth: number;
+  source: string;
+  dependencies?: Record<string, string>;
+  url?: string;
+  hash?: string;
+}
+
+export interface PackageManifest {
+  path: string;
+  text: string;
+  dependencies: Record<string, string>;
+  scopedRegistries?: { name: string, url: string, scopes: string[] }[];
+}
+
+export interface PackageInfo {
+  name: string;
+  // Version, Git URL or file: path requested in manifest.json (direct dependencies only)
+  requested?: string;
+  // What Unity resolved it to, from packages-lock.json
+  resolved?: string;
+  source?: string;
+  direct: boolean;
+  depth?: number;
+  dependencies?: Record<string, string>;
+  requiredBy?: string[];
+}
+
+export interface PackageTreeNode {
+  name: string;
+  version: string;
+  source?: string;
+  dependencies?: PackageTreeNode[];
+  // Already listed higher up the tree
+  cycle?: boolean;
+}
+
+export type PackageVersionKind = 'semver' | 'git' | 'file';
+
+export function getPackagesPaths(projectRootPath: string) {
+  const packagesPath = path.join(projectRootPath, 'Packages');
+  return {
+    manifestPath: path.join(packagesPath, 'manifest.json'),
+    lockPath: path.join(packagesPath, 'packages-lock.json')
+  };
+}
+
+export async function readPackageManifest(projectRootPath: string): Promise<PackageManifest> {
+  const { manifestPath } = getPackagesPaths(projectRootPath);
+  let text: string;
+  try {
+    text = await fs.readFile(manifestPath, 'utf-8');
+  } catch {
+    throw new Error('Package manifest not found: Packages/manifest.json');
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Packages/manifest.json is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return {
+    path: manifestPath,
+    text,
+    dependencies: json.dependencies ?? {},
+    scopedRegistries: json.scopedRegistries
+  };
+}
+
+// Undefined until Unity has resolved the packages at least once
+export async function readPackageLock(projectRootPath: string): Promise<Record<string, LockedPackage> | undefined> {
+  try {
+    const json = JSON.parse((await fs.readFile(getPackagesPaths(projectRootPath).lockPath, 'utf-8')).replace(/^\uFEFF/, ''));
+    return json.dependencies ?? {};
+  } catch {
+    return undefined;
+  }
+}
+
+// Direct dependencies, plus embedded packages and (with includeIndirect) everything they pull in
+export function listPackages(manifest: PackageManifest, lock: Record<string, LockedPackage> | undefined, includeIndirect: boolean): PackageInfo[] {
+  const requiredBy = new Map<string, string[]>();
+  for (const [name, locked] of Object.entries(lock ?? {})) {
+    for (const dependency of Object.keys(locked.dependencies ?? {})) {
+      requiredBy.set(dependency, [...(requiredBy.get(dependency) ?? []), name]);
+    }
+  }
+
+  const names = new Set(Object.keys(manifest.dependencies));
+  for (const [name, locked] of Object.entries(lock ?? {})) {
+    if (includeIndirect || locked.source === 'embedded') names.add(name);
+  }
+
+  return [...names].sort().map(name => {
+    const locked = lock?.[name];
+    const info: PackageInfo = {
+      name,
+      requested: manifest.dependencies[name],
+      resolved: locked?.version,
+      source: locked?.source,
+      direct: name in manifest.dependencies,
+      depth: locked?.depth
+    };
+    if (locked?.dependencies && Object.keys(locked.dependencies).length > 0) info.dependencies = locked.dependencies;
+    if (requiredBy.has(name)) info.requiredBy = requiredBy.get(name)!.sort();
+    return info;
+  });
+}
+
+// The resolved dependency tree of one package
+export function buildPackageTree(lock: Record<string, LockedPackage>, name: string, ancestors: Set<string> = new Set()): PackageTreeNode {
+  const locked = lock[name];
+  if (!locked) return { name, version: 'unresolved' };
+
+  const node: PackageTreeNode = { name, version: locked.version, source: locked.source };
+  if (ancestors.has(name)) return { ...node, cycle: true };
+
+  const dependencies = Object.keys(locked.dependencies ?? {});
+  if (dependencies.length > 0) {
+    const parents = new Set(ancestors).add(name);
+    node.dependencies = dependencies.sort().map(dependency => buildPackageTree(lock, dependency, parents));
+  }
+  return node;
+}
+
+// Unity package names use lowercase reverse domain notation, e.g. com.company.package
+export function validatePackageName(name: string): string | undefined {
+  if (name.length > 214) return `Package name is longer than 214 characters: ${name}`;
+  if (!/^[a-z0-9][a-z0-9_-]*(\.[a-z0-9_-]+)+$/.test(name)) {
+    return `Invalid package name "${name}": use lowercase reverse domain notation, e.g. com.company.package`;
+  }
+  return undefined;
+}
+
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(-[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?(\+[0-9A-Za-z-]+(\.[0-9A-Za-z-]+)*)?$/;
+
+// What a manifest dependency value refers to: a registry version, a Git repository
+// (with an optional ?path= sub folder and #revision) or a local file: path
+export function classifyPackageVersion(version: string): { kind?: PackageVersionKind, error?: string } {
+  if (SEMVER.test(version)) return { kind: 'semver' };
+
+  if (version.startsWith('file:')) {
+    return version.length > 'file:'.length
+      ? { kind: 'file' }
+      : { error: 'file: dependencies need a path, e.g. file:../MyPackage or file:MyPackage.tgz' };
+  }
+
+  const [location, revision] = splitOnce(version, '#');
+  const [repository, query] = splitOnce(location, '?');
+  const isGit = /^(git\+)?(https?|ssh|git|file):\/\/[^\s]+$/.test(repository) || /^(git\+)?[\w.-]+@[\w.-]+:[^\s]+$/.test(repository);
+  if (!isGit) {
+    return { error: `Invalid version "${version}": expected a semantic version (e.g. 1.2.3), a Git URL or a file: path` };
+  }
+  if (/^https?:\/\//.test(repository) && !repository.endsWith('.git')) {
+    return { error: `Git URL "${repository}" must end in .git, or start with git+ (e.g. git+${repository})` };
+  }
+  if (query !== undefined && !/^path=[^&\s]+$/.test(query)) {
+    return { error: `Unsupported query "?${query}" in Git URL: only ?path=<folder in the repository> is supported` };
+  }
+  if (revision !== undefined && !/^[^\s#]+$/.test(revision)) {
+    return { error: `Invalid Git revision "#${revision}": expected a branch, tag or commit hash` };
+  }
+  return { kind: 'git' };
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator);
+  return index < 0 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)];
+}
+
+interface JsonMember {
+  key: string;
+  start: number;
+  keyEnd: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+// Set, add (version given) or remove (version undefined) one dependency by editing the text
+// in place, so the rest of the manifest keeps its formatting. New entries follow the style of
+// the existing ones and go in alphabetical order when the dependencies are sorted.
+export function setManifestDependency(text: string, name: string, version: string | undefined): string {
+  const root = scanObject(text, skipWhitespace(text, 0));
+  const dependenciesMember = root.members.find(member => member.key === 'dependencies' && text[member.valueStart] === '{');
+  if (!dependenciesMember) {
+    throw new Error('Packages/manifest.json has no "dependencies" object');
+  }
+  const dependencies = scanObject(text, dependenciesMember.valueStart);
+  const members = dependencies.members;
+  const index = members.findIndex(member => member.key === name);
+
+  if (version === undefined) {
+    if (index < 0) return text;
+    if (members.length === 1) {
+      return text.slice(0, dependencies.start + 1) + text.slice(dependencies.end);
+    }
+    return index < members.length - 1
+      ? text.slice(0, members[index].start) + text.slice(members[index + 1].start)
+      : text.slice(0, members[index - 1].valueEnd) + text.slice(members[index].valueEnd);
+  }
+
+  if (index >= 0) {
+    const member = members[index];
+    return text.slice(0, member.valueStart) + JSON.stringify(version) + text.slice(member.valueEnd);
+  }
+
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  if (members.length === 0) {
+    const indent = lineIndent(text, dependenciesMember.start);
+    const entry = `${JSON.stringify(name)}: ${JSON.stringify(version)}`;
+    return text.slice(0, dependencies.start + 1) +
+      `${eol}${indent}${detectIndentUnit(text)}${entry}${eol}${indent}` +
+      text.slice(dependencies.end);
+  }
+
+  const first = members[0];
+  const entry = JSON.stringify(name) + text.slice(first.keyEnd, first.valueStart) + JSON.stringify(version);
+  const between = members.length > 1
+    ? text.slice(first.valueEnd, members[1].start)
+    : text.slice(text.lastIndexOf('\n', first.start) + 1, first.start).trim() === ''
+      ? `,${eol}${lineIndent(text, first.start)}`
+      : ', ';
+
+  const sorted = members.every((member, i) => i === 0 || members[i - 1].key <= member.key);
+  const before = sorted ? members.find(member => member.key > name) : undefined;
+  if (before) {
+    return text.slice(0, before.start) + entry + between + text.slice(before.start);
+  }
+  const last = members[members.length - 1];
+  return text.slice(0, last.valueEnd) + between + entry + text.slice(last.valueEnd);
+}
+
+// A minimal scanner for text already known to be valid JSON, tracking where members start and end
+function scanObject(text: string, start: number): { start: number, end: number, members: JsonMember[] } {
+  const members: JsonMember[] = [];
+  let i = skipWhitespace(text, start + 1);
+  while (i < text.length && text[i] !== '}') {
+    const keyEnd = skipString(text, i);
+    const valueStart = skipWhitespace(text, skipWhitespace(text, keyEnd) + 1);
+    const valueEnd = skipValue(text, valueStart);
+    members.push({ key: JSON.parse(text.slice(i, keyEnd)), start: i, keyEnd, valueStart, valueEnd });
+
+    i = skipWhitespace(text, valueEnd);
+    if (text[i] === ',') i = skipWhitespace(text, i + 1);
+  }
+  return { start, end: i, members };
+}
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+function skipString(text: string, i: number): number {
+  i++;
+  while (i < text.length && text[i] !== '"') i += text[i] === '\\' ? 2 : 1;
+  return i + 1;
+}
+
+function skipValue(text: string, i: number): number {
+  if (text[i] === '"') return skipString(text, i);
+  if (text[i] === '{' || text[i] === '[') {
+    let depth = 0;
+    for (; i < text.length; i++) {
+      if (text[i] === '"') {
+        i = skipString(text, i) - 1;
+      } else if (text[i] === '{' || text[i] === '[') {
+        depth++;
+      } else if ((text[i] === '}' || text[i] === ']') && --depth === 0) {
+        return i + 1;
+      }
+    }
+    return i;
+  }
+  while (i < text.length && !/[\s,}\]]/.test(text[i])) i++;
+  return i;
+}
+
+function lineIndent(text: string, index: number): string {
+  return text.slice(text.lastIndexOf('\n', index - 1) + 1, index).match(/^[ \t]*/)![0];
+}
+
+function detectIndentUnit(text: string): string {
+  return text.match(/\n([ \t]+)\S/)?.[1] ?? '  ';
+}
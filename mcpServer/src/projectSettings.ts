@@ -0,0 +1,245 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseUnityYaml } from './unityYaml.js';
+import { getGuidIndex } from './guidIndex.js';
+import { BuildSceneEntry } from './types.js';
+
+export const PROJECT_SETTINGS_SECTIONS = ['tags', 'build', 'player', 'quality', 'graphics'] as const;
+export type ProjectSettingsSection = typeof PROJECT_SETTINGS_SECTIONS[number];
+
+// Enabled scenes get a build index. Scenes are found by GUID, so a moved scene shows its current path
+export type DescribedBuildScene = BuildSceneEntry & { buildIndex?: number, missing?: boolean };
+
+export interface ProjectSettingsSummary {
+  tags?: string[];
+  // Only layers with a name; Unity has 32 slots
+  layers?: { index: number, name: string }[];
+  sortingLayers?: { name: string, uniqueID: number, locked: boolean }[];
+  buildScenes?: DescribedBuildScene[];
+  player?: {
+    companyName?: string;
+    productName?: string;
+    bundleVersion?: string;
+    applicationIdentifier?: Record<string, string>;
+    colorSpace?: string;
+    // Per build target group; targets that aren't listed use their default (Mono, except IL2CPP-only platforms)
+    scriptingBackend?: Record<string, string>;
+    apiCompatibilityLevel?: Record<string, string>;
+    scriptingDefineSymbols?: Record<string, string[]>;
+  };
+  quality?: {
+    current?: string;
+    levels: Record<string, unknown>[];
+    defaultByPlatform?: Record<string, string>;
+  };
+  graphics?: {
+    renderPipeline: string;
+    alwaysIncludedShaders: string[];
+  };
+  // Settings files that are missing or could not be parsed
+  warnings: string[];
+}
+
+const SETTINGS_FILES: Record<ProjectSettingsSection, string> = {
+  tags: 'TagManager.asset',
+  build: 'EditorBuildSettings.asset',
+  player: 'ProjectSettings.asset',
+  quality: 'QualitySettings.asset',
+  graphics: 'GraphicsSettings.asset'
+};
+
+const SCRIPTING_BACKENDS: Record<string, string> = { '0': 'Mono', '1': 'IL2CPP', '2': 'WinRTDotNET' };
+const API_COMPATIBILITY_LEVELS: Record<string, string> = { '3': '.NET Framework', '6': '.NET Standard' };
+const SHADOWS = ['Disable', 'HardOnly', 'All'];
+const SHADOW_RESOLUTIONS = ['Low', 'Medium', 'High', 'VeryHigh'];
+
+// Shaders that ship with the editor all share this GUID
+const BUILTIN_GUID = '0000000000000000f000000000000000';
+
+// Read the requested sections from the text-serialized files in ProjectSettings, without the editor.
+// Asset references (render pipelines, shaders) are resolved to paths through the .meta files.
+export async function readProjectSettings(
+  projectRootPath: string,
+  assetsPath: string,
+  sections: readonly ProjectSettingsSection[] = PROJECT_SETTINGS_SECTIONS
+): Promise<ProjectSettingsSummary> {
+  const summary: Omit<ProjectSettingsSummary, 'warnings'> = {};
+  const warnings: string[] = [];
+  const index = getGuidIndex(assetsPath);
+  const describeReference = async (reference: any): Promise<string | undefined> => {
+    if (!reference?.guid) return undefined;
+    if (reference.guid === BUILTIN_GUID) return `Built-in (fileID ${reference.fileID})`;
+    const assetPath = await index.getPath(reference.guid);
+    return assetPath ? `Assets/${assetPath}` : `Missing asset (guid ${reference.guid})`;
+  };
+
+  for (const section of sections) {
+    const file = SETTINGS_FILES[section];
+    let data: Record<string, any>;
+    try {
+      const documents = parseUnityYaml(await fs.readFile(path.join(projectRootPath, 'ProjectSettings', file), 'utf-8'));
+      data = documents[0]?.data ?? {};
+    } catch (error) {
+      warnings.push(`ProjectSettings/${file}: ${(error as NodeJS.ErrnoException).code === 'ENOENT' ? 'not found' : error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    switch (section) {
+      case 'tags':
+        summary.tags = asArray(data.tags).map(String);
+        summary.layers = asArray(data.layers)
+          .map((name, index) => ({ index, name: name == null ? '' : String(name) }))
+          .filter(layer => layer.name !== '');
+        summary.sortingLayers = asArray(data.m_SortingLayers).map(layer => ({
+          name: String(layer.name ?? ''),
+          uniqueID: Number(layer.uniqueID ?? 0),
+          locked: String(layer.locked) === '1'
+        }));
+        break;
+
+      case 'build':
+        summary.buildScenes = await describeBuildScenes(buildScenesFromSettings(data), projectRootPath, assetsPath);
+        break;
+
+      case 'player':
+        summary.player = {
+          companyName: optionalString(data.companyName),
+          productName: optionalString(data.productName),
+          bundleVersion: optionalString(data.bundleVersion),
+          applicationIdentifier: mapValues(data.applicationIdentifier, String),
+          colorSpace: data.m_ActiveColorSpace === undefined ? undefined : String(data.m_ActiveColorSpace) === '1' ? 'Linear' : 'Gamma',
+          scriptingBackend: mapValues(data.scriptingBackend, value => SCRIPTING_BACKENDS[String(value)] ?? String(value)),
+          apiCompatibilityLevel: mapValues(data.apiCompatibilityLevelPerPlatform,
+            value => API_COMPATIBILITY_LEVELS[String(value)] ?? String(value)),
+          scriptingDefineSymbols: mapValues(data.scriptingDefineSymbols,
+            value => String(value ?? '').split(';').map(symbol => symbol.trim()).filter(Boolean))
+        };
+        break;
+
+      case 'quality': {
+        const levels = asArray(data.m_QualitySettings);
+        const levelName = (value: unknown) => String(levels[Number(value)]?.name ?? value);
+        summary.quality = {
+          current: data.m_CurrentQuality === undefined ? undefined : levelName(data.m_CurrentQuality),
+          levels: await Promise.all(levels.map(async level => ({
+            name: String(level.name ?? ''),
+            pixelLightCount: level.pixelLightCount,
+            shadows: SHADOWS[Number(level.shadows)] ?? level.shadows,
+            shadowResolution: SHADOW_RESOLUTIONS[Number(level.shadowResolution)] ?? level.shadowResolution,
+            antiAliasing: level.antiAliasing,
+            vSyncCount: level.vSyncCount,
+            lodBias: level.lodBias,
+            renderPipeline: await describeReference(level.customRenderPipeline),
+            excludedTargetPlatforms: asArray(level.excludedTargetPlatforms).length > 0 ? level.excludedTargetPlatforms : undefined
+          }))),
+          defaultByPlatform: mapValues(data.m_PerPlatformDefaultQuality, levelName)
+        };
+        break;
+      }
+
+      case 'graphics': {
+        const shaders = await Promise.all(asArray(data.m_AlwaysIncludedShaders).map(describeReference));
+        summary.graphics = {
+          renderPipeline: await describeReference(data.m_CustomRenderPipeline) ?? 'Built-in Render Pipeline',
+          alwaysIncludedShaders: shaders.filter((shader): shader is string => shader !== undefined)
+        };
+        break;
+      }
+    }
+  }
+
+  return { ...summary, warnings };
+}
+
+export async function describeBuildScenes(scenes: BuildSceneEntry[], projectRootPath: string, assetsPath: string): Promise<DescribedBuildScene[]> {
+  const index = getGuidIndex(assetsPath);
+  const described: DescribedBuildScene[] = [];
+  let buildIndex = 0;
+  for (const scene of scenes) {
+    const guid = scene.guid && !/^0+$/.test(scene.guid) ? scene.guid : undefined;
+    const indexedPath = guid ? await index.getPath(guid) : undefined;
+    const exists = indexedPath !== undefined || await fs.access(path.join(projectRootPath, scene.path)).then(() => true, () => false);
+    described.push({
+      path: indexedPath !== undefined ? `Assets/${indexedPath}` : scene.path,
+      enabled: scene.enabled,
+      guid,
+      buildIndex: scene.enabled && exists ? buildIndex++ : undefined,
+      missing: exists ? undefined : true
+    });
+  }
+  return described;
+}
+
+// EditorBuildSettings.asset with its scene list replaced, or a new one if there is none yet
+export function writeBuildScenes(content: string | undefined, scenes: BuildSceneEntry[]): string {
+  const eol = content?.includes('\r\n') ? '\r\n' : '\n';
+  const lines = (content ?? [
+    '%YAML 1.1',
+    '%TAG !u! tag:unity3d.com,2011:',
+    '--- !u!1045 &1',
+    'EditorBuildSettings:',
+    '  m_ObjectHideFlags: 0',
+    '  serializedVersion: 2',
+    '  m_Scenes: []',
+    '  m_configObjects: {}',
+    ''
+  ].join(eol)).split(/\r?\n/);
+
+  let start = lines.findIndex(line => /^\s*m_Scenes:/.test(line));
+  let end = start + 1;
+  if (start < 0) {
+    start = end = lines.findIndex(line => /^EditorBuildSettings:/.test(line)) + 1;
+    if (start === 0) throw new Error('ProjectSettings/EditorBuildSettings.asset has no EditorBuildSettings object');
+  }
+  const indent = (lines[start] ?? '').match(/^\s*/)![0] || '  ';
+  while (end < lines.length && (lines[end].startsWith(`${indent}- `) || lines[end].startsWith(`${indent}  `))) end++;
+
+  const sceneLines = scenes.length === 0 ? [`${indent}m_Scenes: []`] : [
+    `${indent}m_Scenes:`,
+    ...scenes.flatMap(scene => [
+      `${indent}- enabled: ${scene.enabled ? 1 : 0}`,
+      `${indent}  path: ${yamlScalar(scene.path)}`,
+      ...(scene.guid ? [`${indent}  guid: ${scene.guid}`] : [])
+    ])
+  ];
+  lines.splice(start, end - start, ...sceneLines);
+  return lines.join(eol);
+}
+
+// Paths are written plain the way Unity does, quoted only when YAML needs it
+function yamlScalar(value: string): string {
+  return /^[\w\/.() -]+$/.test(value) && value.trim() === value && !value.startsWith('-')
+    ? value
+    : `'${value.replace(/'/g, "''")}'`;
+}
+
+export function readBuildScenes(content: string): BuildSceneEntry[] {
+  try {
+    return buildScenesFromSettings(parseUnityYaml(content).find(doc => doc.type === 'EditorBuildSettings')?.data ?? {});
+  } catch {
+    return [];
+  }
+}
+
+function buildScenesFromSettings(data: Record<string, any>): BuildSceneEntry[] {
+  return asArray(data.m_Scenes).map(scene => ({
+    path: String(scene.path ?? ''),
+    enabled: String(scene.enabled) === '1',
+    guid: typeof scene.guid === 'string' && /^[0-9a-f]{32}$/i.test(scene.guid) ? scene.guid.toLowerCase() : undefined
+  }));
+}
+
+function asArray(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value == null ? undefined : String(value);
+}
+
+// Per-platform maps are serialized as "{}" when empty
+function mapValues<T>(value: unknown, convert: (value: unknown) => T): Record<string, T> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const entries = Object.entries(value);
+  return entries.length > 0 ? Object.fromEntries(entries.map(([key, item]) => [key, convert(item)])) : undefined;
+}
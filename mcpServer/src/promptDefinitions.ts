@@ -0,0 +1,253 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  McpError,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import fs from 'fs/promises';
+import path from 'path';
+import { WebSocketHandler } from './websocketHandler.js';
+import { getProjectPaths, validatePath, findAssetsByType } from './filesystemTools.js';
+
+interface PromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+// A prompt is a text template; {{argument}} is replaced by the caller's argument and
+// {{context.name}} by live project context gathered when the prompt is requested
+interface PromptTemplate {
+  name: string;
+  description?: string;
+  arguments: PromptArgument[];
+  template: string;
+}
+
+type ContextProvider = (
+  wsHandler: WebSocketHandler,
+  projectPath: string,
+  args: Record<string, string>
+) => Promise<string>;
+
+const instanceArgument: PromptArgument = {
+  name: 'instance',
+  description: 'Unity Editor instance to gather context from when several are connected',
+  required: false
+};
+
+const builtInPrompts: PromptTemplate[] = [
+  {
+    name: 'diagnose_latest_exception',
+    description: 'Diagnose the most recent error or exception in the Unity console and propose a fix',
+    arguments: [instanceArgument],
+    template: `Diagnose the most recent error or exception reported by the Unity Editor.
+
+1. Identify the root cause from the message and stack trace below.
+2. Use read_file to open the project scripts that appear in the stack trace.
+3. Explain the cause in a few sentences and propose a concrete fix as an edit_file change.
+
+## Most recent errors and exceptions
+{{context.recentErrors}}
+
+## Log entries leading up to it
+{{context.recentLogs}}`
+  },
+  {
+    name: 'create_monobehaviour',
+    description: 'Write a new MonoBehaviour script and attach it to a GameObject in the open scene',
+    arguments: [
+      { name: 'className', description: 'Name of the MonoBehaviour class to create', required: true },
+      { name: 'behaviour', description: 'What the component should do', required: true },
+      { name: 'targetGameObject', description: 'Hierarchy path of the GameObject to attach it to', required: false },
+      { name: 'folder', description: 'Folder under Assets to create the script in', required: false },
+      instanceArgument
+    ],
+    template: `Write a new MonoBehaviour named {{className}} that does the following:
+{{behaviour}}
+
+1. Follow the conventions (namespaces, naming, formatting) of the existing scripts listed below.
+2. Create the script with write_file in the folder "{{folder}}" (or the most fitting existing folder if none is given).
+3. Once Unity has compiled it, attach it to "{{targetGameObject}}" (or ask which GameObject to use if none is given) using execute_editor_command, and confirm with get_game_objects_info.
+
+## Existing scripts in the project
+{{context.scripts}}
+
+## Root GameObjects of the active scene
+{{context.sceneRoots}}`
+  },
+  {
+    name: 'audit_scene_references',
+    description: 'Audit the open scene for missing scripts, missing references and other broken setup',
+    arguments: [instanceArgument],
+    template: `Audit the active Unity scene for problems, in particular:
+- GameObjects with missing (null) script components
+- Serialized fields referencing missing objects or assets
+- Disabled objects or components that look unintentional
+
+Use get_game_objects_info with IncludeComponents on suspicious objects and execute_editor_command to inspect serialized properties where needed. Report findings as a list grouped by GameObject path, each with a suggested fix.
+
+## Scene hierarchy
+{{context.sceneHierarchy}}
+
+## Recent warnings and errors
+{{context.recentErrors}}`
+  }
+];
+
+const contextProviders: Record<string, ContextProvider> = {
+  recentLogs: async (wsHandler, _projectPath, args) =>
+    JSON.stringify((await wsHandler.getLogEntries({ count: 20, fields: ['logType', 'message', 'timestamp'] }, args.instance)).logs, null, 2),
+
+  recentErrors: async (wsHandler, _projectPath, args) =>
+    JSON.stringify((await wsHandler.getLogEntries({ types: ['Error', 'Exception', 'Assert'], count: 5 }, args.instance)).logs, null, 2),
+
+  sceneHierarchy: async (wsHandler, _projectPath, args) =>
+    JSON.stringify(await wsHandler.requestSceneInfo('FullHierarchy', args.instance), null, 2),
+
+  sceneRoots: async (wsHandler, _projectPath, args) =>
+    JSON.stringify(await wsHandler.requestSceneInfo('RootObjectsOnly', args.instance), null, 2),
+
+  editorState: async (wsHandler, _projectPath, args) => {
+    // The hierarchy is better requested through sceneHierarchy; it would dwarf everything else here
+    const { sceneHierarchy, ...state } = wsHandler.getEditorState(args.instance);
+    return JSON.stringify(state, null, 2);
+  },
+
+  scripts: async (_wsHandler, projectPath) => {
+    const scripts = await findAssetsByType('Script', await validatePath('', projectPath), -1, projectPath);
+    const listed = scripts.slice(0, 200).map(script => script.path);
+    if (scripts.length > listed.length) {
+      listed.push(`... and ${scripts.length - listed.length} more`);
+    }
+    return listed.length > 0 ? listed.join('\n') : '(no scripts found)';
+  }
+};
+
+export function registerPrompts(server: Server, wsHandler: WebSocketHandler) {
+  const { projectPath, projectRootPath } = getProjectPaths();
+  const promptsPath = process.env.MCP_PROMPTS_PATH || path.join(projectRootPath, 'MCPPrompts');
+
+  console.error(`[Unity MCP PromptDefinitions] Loading project prompts from: ${promptsPath}`);
+
+  // Project prompts are re-read on every request so edits apply without restarting the server
+  const getAllPrompts = async (): Promise<PromptTemplate[]> => {
+    const projectPrompts = await loadProjectPrompts(promptsPath);
+    const overridden = new Set(projectPrompts.map(prompt => prompt.name));
+    return [...builtInPrompts.filter(prompt => !overridden.has(prompt.name)), ...projectPrompts];
+  };
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: (await getAllPrompts()).map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments
+    }))
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = (await getAllPrompts()).find(candidate => candidate.name === name);
+
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required arguments for prompt ${name}: ${missing.map(arg => arg.name).join(', ')}`
+      );
+    }
+
+    const text = await renderTemplate(prompt.template, args, wsHandler, projectPath);
+
+    return {
+      description: prompt.description,
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text }
+      }]
+    };
+  });
+}
+
+async function renderTemplate(
+  template: string,
+  args: Record<string, string>,
+  wsHandler: WebSocketHandler,
+  projectPath: string
+): Promise<string> {
+  // Gather each referenced context value once, even if it appears several times
+  const contextNames = new Set([...template.matchAll(/\{\{\s*context\.(\w+)\s*\}\}/g)].map(match => match[1]));
+  const contextValues: Record<string, string> = {};
+
+  for (const contextName of contextNames) {
+    const provider = contextProviders[contextName];
+    if (!provider) {
+      contextValues[contextName] = `(unknown context "${contextName}")`;
+      continue;
+    }
+
+    try {
+      contextValues[contextName] = await provider(wsHandler, projectPath, args);
+    } catch (error) {
+      contextValues[contextName] = `(unavailable: ${error instanceof Error ? error.message : String(error)})`;
+    }
+  }
+
+  return template.replace(/\{\{\s*(context\.)?(\w+)\s*\}\}/g, (_match, isContext, name) =>
+    isContext ? contextValues[name] : (args[name] ?? '')
+  );
+}
+
+// Load *.json prompt definitions and *.md templates from the project prompts folder.
+// A .md file is named after the file, and every {{placeholder}} in it becomes an optional argument.
+async function loadProjectPrompts(promptsPath: string): Promise<PromptTemplate[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(promptsPath);
+  } catch {
+    // No project prompts folder - only the built-in prompts are available
+    return [];
+  }
+
+  const prompts: PromptTemplate[] = [];
+
+  for (const entry of entries.sort()) {
+    const filePath = path.join(promptsPath, entry);
+    const ext = path.extname(entry).toLowerCase();
+
+    try {
+      if (ext === '.json') {
+        const definition = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        if (typeof definition.template !== 'string') {
+          throw new Error('missing "template" string');
+        }
+        prompts.push({
+          name: definition.name || path.basename(entry, ext),
+          description: definition.description,
+          arguments: Array.isArray(definition.arguments) ? definition.arguments : [],
+          template: definition.template
+        });
+      } else if (ext === '.md') {
+        const template = await fs.readFile(filePath, 'utf-8');
+        const argumentNames = new Set(
+          [...template.matchAll(/\{\{\s*(?!context\.)(\w+)\s*\}\}/g)].map(match => match[1])
+        );
+        prompts.push({
+          name: path.basename(entry, ext),
+          description: `Project prompt from ${entry}`,
+          arguments: [...argumentNames].map(name => ({ name, required: false })),
+          template
+        });
+      }
+    } catch (error) {
+      console.error(`[Unity MCP] Skipping invalid prompt file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return prompts;
+}
@@ -0,0 +1,184 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  McpError,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { WebSocketHandler } from './websocketHandler.js';
+
+const EDITOR_STATE_URI = 'unity://editor/state';
+const ACTIVE_SCENE_URI = 'unity://scene/active';
+const RECENT_LOGS_URI = 'unity://logs/recent';
+const GAME_OBJECT_URI_PREFIX = 'unity://gameobject/';
+
+// How often queued resources/updated notifications are flushed, so log bursts don't flood the client
+const NOTIFICATION_INTERVAL_MS = 250;
+
+export function registerResources(server: Server, wsHandler: WebSocketHandler) {
+  // Subscribed URIs and their resource paths and instances, parsed once when subscribing
+  const subscriptions = new Map<string, { resourcePath: string, instance?: string }>();
+  const pendingUpdates = new Set<string>();
+  let flushTimer: NodeJS.Timeout | null = null;
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [
+      {
+        uri: EDITOR_STATE_URI,
+        name: 'Unity Editor state',
+        description: 'Current Unity Editor state: play mode, selection, active scene and project information. Append ?instance=<id> to target a specific editor.',
+        mimeType: 'application/json'
+      },
+      {
+        uri: ACTIVE_SCENE_URI,
+        name: 'Active scene hierarchy',
+        description: 'Full GameObject hierarchy of the active scene',
+        mimeType: 'application/json'
+      },
+      {
+        uri: RECENT_LOGS_URI,
+        name: 'Recent Unity logs',
+        description: 'The most recent 100 Unity console log entries',
+        mimeType: 'application/json'
+      }
+    ]
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: `${GAME_OBJECT_URI_PREFIX}{instanceID}`,
+        name: 'GameObject details',
+        description: 'Details and components of a GameObject in the open scenes, by instance ID',
+        mimeType: 'application/json'
+      }
+    ]
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    const { resourcePath, instance } = parseResourceUri(uri);
+
+    try {
+      const contents = await readResource(resourcePath, wsHandler, instance);
+      return {
+        contents: [{
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(contents, null, 2)
+        }]
+      };
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to read resource ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    const { resourcePath, instance } = parseResourceUri(uri);
+    if (!isKnownResource(resourcePath)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    subscriptions.set(uri, { resourcePath, instance });
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Queue the subscriptions that match and either name the instance that changed or no instance at all
+  const queueUpdate = (instanceId: string, matches: (resourcePath: string) => boolean) => {
+    for (const [uri, { resourcePath, instance }] of subscriptions) {
+      if (matches(resourcePath) && (!instance || wsHandler.refersToInstance(instance, instanceId))) {
+        pendingUpdates.add(uri);
+      }
+    }
+
+    if (pendingUpdates.size > 0 && !flushTimer) {
+      flushTimer = setTimeout(() => {
+        flushTimer = null;
+        const uris = [...pendingUpdates];
+        pendingUpdates.clear();
+        for (const uri of uris) {
+          server.sendResourceUpdated({ uri }).catch(error => {
+            console.error(`[Unity MCP] Error sending resource update for ${uri}:`, error);
+          });
+        }
+      }, NOTIFICATION_INTERVAL_MS);
+    }
+  };
+
+  // A new editor state can mean anything in the scene changed
+  wsHandler.on('editorState', (_state, instanceId: string) => {
+    queueUpdate(instanceId, resourcePath =>
+      resourcePath === 'editor/state' ||
+      resourcePath === 'scene/active' ||
+      resourcePath.startsWith('gameobject/')
+    );
+  });
+
+  wsHandler.on('log', (_logEntry, instanceId: string) => {
+    queueUpdate(instanceId, resourcePath => resourcePath === 'logs/recent');
+  });
+}
+
+// Split a unity:// URI into its path (e.g. "editor/state") and optional instance query parameter
+function parseResourceUri(uri: string): { resourcePath: string, instance?: string } {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+  }
+
+  if (url.protocol !== 'unity:') {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+
+  return {
+    resourcePath: `${url.host}${url.pathname}`.replace(/\/+$/, ''),
+    instance: url.searchParams.get('instance') ?? undefined
+  };
+}
+
+function isKnownResource(resourcePath: string): boolean {
+  return ['editor/state', 'scene/active', 'logs/recent'].includes(resourcePath) || /^gameobject\/-?\d+$/.test(resourcePath);
+}
+
+async function readResource(resourcePath: string, wsHandler: WebSocketHandler, instance?: string): Promise<any> {
+  switch (resourcePath) {
+    case 'editor/state':
+      return wsHandler.getEditorState(instance);
+
+    case 'scene/active':
+      return wsHandler.requestSceneInfo('FullHierarchy', instance);
+
+    case 'logs/recent':
+      return (await wsHandler.getLogEntries({ count: 100 }, instance)).logs;
+  }
+
+  if (resourcePath.startsWith('gameobject/')) {
+    const instanceID = Number(resourcePath.slice('gameobject/'.length));
+    if (!Number.isInteger(instanceID)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid GameObject instance ID in unity://${resourcePath}`);
+    }
+
+    const details = await wsHandler.requestGameObjectsInfo([instanceID], 'IncludeComponents', instance);
+    if (!details?.length) {
+      throw new McpError(ErrorCode.InvalidParams, `GameObject with instance ID ${instanceID} was not found`);
+    }
+    return details[0];
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: unity://${resourcePath}`);
+}
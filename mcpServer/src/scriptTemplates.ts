@@ -0,0 +1,195 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface ScriptTemplate {
+  name: string;
+  source: 'built-in' | 'project';
+  text: string;
+  // Uses UnityEditor, so it has to live in an Editor folder or an Editor-only assembly
+  editorOnly: boolean;
+}
+
+// Templates are plain C# with {{placeholders}}. Unless a template places {{namespace}} itself,
+// everything after the using directives is wrapped in the derived namespace.
+const builtInTemplates: Record<string, { text: string, editorOnly: boolean }> = {
+  MonoBehaviour: {
+    editorOnly: false,
+    text: `using UnityEngine;
+
+public class {{className}} : MonoBehaviour
+{
+    void Start()
+    {
+
+    }
+
+    void Update()
+    {
+
+    }
+}
+`
+  },
+
+  ScriptableObject: {
+    editorOnly: false,
+    text: `using UnityEngine;
+
+[CreateAssetMenu(fileName = "{{fileName}}", menuName = "{{menuName}}")]
+public class {{className}} : ScriptableObject
+{
+
+}
+`
+  },
+
+  EditorWindow: {
+    editorOnly: true,
+    text: `using UnityEditor;
+using UnityEngine;
+
+public class {{className}} : EditorWindow
+{
+    [MenuItem("{{menuName}}")]
+    public static void ShowWindow()
+    {
+        GetWindow<{{className}}>("{{title}}");
+    }
+
+    void OnGUI()
+    {
+
+    }
+}
+`
+  },
+
+  // Fully qualified base class, as "Editor" alone resolves to the namespace inside *.Editor namespaces
+  CustomInspector: {
+    editorOnly: true,
+    text: `using UnityEditor;
+using UnityEngine;
+
+[CustomEditor(typeof({{targetType}}))]
+public class {{className}} : UnityEditor.Editor
+{
+    public override void OnInspectorGUI()
+    {
+        DrawDefaultInspector();
+    }
+}
+`
+  },
+
+  Test: {
+    editorOnly: false,
+    text: `using System.Collections;
+using NUnit.Framework;
+using UnityEngine.TestTools;
+
+public class {{className}}
+{
+    [Test]
+    public void SimplePasses()
+    {
+
+    }
+
+    [UnityTest]
+    public IEnumerator WithEnumeratorPasses()
+    {
+        yield return null;
+    }
+}
+`
+  }
+};
+
+export const BUILT_IN_SCRIPT_TEMPLATES = Object.keys(builtInTemplates);
+
+// A project template (<name>.cs.txt in the templates folder) takes precedence over the
+// built-in template of the same name. Read on every call so edits apply without a restart.
+export async function loadScriptTemplate(name: string, templatesPath: string): Promise<ScriptTemplate> {
+  const projectTemplates = await listProjectTemplates(templatesPath);
+  const projectTemplate = projectTemplates.find(template => template.toLowerCase() === name.toLowerCase());
+  if (projectTemplate) {
+    const text = await fs.readFile(path.join(templatesPath, `${projectTemplate}.cs.txt`), 'utf-8');
+    return { name: projectTemplate, source: 'project', text, editorOnly: /^\s*using\s+UnityEditor\s*;/m.test(text) };
+  }
+
+  const builtIn = BUILT_IN_SCRIPT_TEMPLATES.find(template => template.toLowerCase() === name.toLowerCase());
+  if (builtIn) {
+    return { name: builtIn, source: 'built-in', ...builtInTemplates[builtIn] };
+  }
+
+  const available = [...new Set([...BUILT_IN_SCRIPT_TEMPLATES, ...projectTemplates])];
+  throw new Error(`Unknown script template "${name}". Available templates: ${available.join(', ')}`);
+}
+
+async function listProjectTemplates(templatesPath: string): Promise<string[]> {
+  try {
+    return (await fs.readdir(templatesPath))
+      .filter(entry => entry.endsWith('.cs.txt'))
+      .map(entry => entry.slice(0, -'.cs.txt'.length));
+  } catch {
+    // No project templates folder - only the built-in templates are available
+    return [];
+  }
+}
+
+// Fill in the template's placeholders and wrap it in the namespace
+export function renderScript(template: ScriptTemplate, values: Record<string, string>, namespace: string): string {
+  const missing = new Set<string>();
+  const placesNamespace = /\{\{\s*namespace\s*\}\}/.test(template.text);
+
+  let text = template.text.replace(/\r\n/g, '\n').replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => {
+    if (name === 'namespace') return namespace;
+    if (values[name] === undefined) {
+      missing.add(name);
+      return match;
+    }
+    return values[name];
+  });
+  if (missing.size > 0) {
+    throw new Error(`Template ${template.name} needs values for: ${[...missing].join(', ')} (pass them in parameters)`);
+  }
+
+  if (namespace && !placesNamespace) {
+    text = wrapInNamespace(text, namespace);
+  }
+  return text.endsWith('\n') ? text : text + '\n';
+}
+
+function wrapInNamespace(text: string, namespace: string): string {
+  const lines = text.split('\n');
+  let bodyStart = 0;
+  while (bodyStart < lines.length && /^\s*(using\s[^(]*;|\/\/.*)?\s*$/.test(lines[bodyStart])) {
+    bodyStart++;
+  }
+  // Comments right above the type belong to it
+  while (bodyStart > 0 && lines[bodyStart - 1].trim().startsWith('//')) {
+    bodyStart--;
+  }
+
+  const header = lines.slice(0, bodyStart);
+  const body = lines.slice(bodyStart);
+  while (body.length > 0 && body[body.length - 1].trim() === '') body.pop();
+
+  return [
+    ...header,
+    `namespace ${namespace}`,
+    '{',
+    ...body.map(line => line.trim() ? `    ${line}` : ''),
+    '}',
+    ''
+  ].join('\n');
+}
+
+// "Game" + "Scripts/Player Controls" -> "Game.Scripts.PlayerControls"
+export function namespaceFromFolder(rootNamespace: string, folder: string): string {
+  const segments = folder.split(/[\\/]/)
+    .map(segment => segment.replace(/[^A-Za-z0-9_]/g, ''))
+    .filter(Boolean)
+    .map(segment => /^\d/.test(segment) ? `_${segment}` : segment);
+  return [rootNamespace, ...segments].filter(Boolean).join('.');
+}
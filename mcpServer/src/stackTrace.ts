@@ -0,0 +1,124 @@
+import fs from 'fs/promises';
+import { StackFrame } from './types.js';
+import { validatePath } from './filesystemTools.js';
+
+// Unity's own format:      Namespace.Class:Method (int,string) (at Assets/Scripts/Foo.cs:42)
+// Mono exception format:   at Namespace.Class.Method (int x) [0x00012] in /project/Assets/Scripts/Foo.cs:42
+const FRAME_PATTERN = /^(?:at\s+)?(.+?)\s*\(([^()]*)\)\s*(?:\(at\s+(.+):(\d+)\)|\[0x[0-9a-fA-F]+\]\s+in\s+(.+):(\d+))?\s*$/;
+
+export function parseStackTrace(stackTrace: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const rawLine of (stackTrace || '').split('\n')) {
+    const raw = rawLine.trim();
+    if (!raw) continue;
+
+    const match = raw.match(FRAME_PATTERN);
+    if (!match) {
+      // Keep unrecognized lines (e.g. "Rethrow as ...") so nothing is silently dropped
+      frames.push({ raw });
+      continue;
+    }
+
+    const [, symbol, parameters, unityFile, unityLine, monoFile, monoLine] = match;
+    const frame: StackFrame = { raw, ...splitSymbol(symbol), parameters };
+
+    const file = unityFile ?? monoFile;
+    const line = unityLine ?? monoLine;
+    // Mono reports "<guid>:0" when there is no debug information
+    if (file && !file.startsWith('<')) {
+      frame.file = file;
+      frame.line = parseInt(line, 10);
+    }
+
+    frames.push(frame);
+  }
+
+  return frames;
+}
+
+// "Namespace.Class:Method" or "Namespace.Class.Method" into its parts
+function splitSymbol(symbol: string): Pick<StackFrame, 'namespace' | 'className' | 'method'> {
+  let typeName: string;
+  let method: string;
+
+  const colon = symbol.lastIndexOf(':');
+  if (colon > 0) {
+    typeName = symbol.slice(0, colon);
+    method = symbol.slice(colon + 1);
+  } else {
+    const dot = symbol.lastIndexOf('.');
+    typeName = dot > 0 ? symbol.slice(0, dot) : '';
+    method = dot > 0 ? symbol.slice(dot + 1) : symbol;
+  }
+
+  const dot = typeName.lastIndexOf('.');
+  return {
+    namespace: dot > 0 ? typeName.slice(0, dot) : undefined,
+    className: dot > 0 ? typeName.slice(dot + 1) : typeName || undefined,
+    method
+  };
+}
+
+// Resolve frame files against the project and attach the surrounding source lines of
+// each project file. Files outside the Assets folder (packages, engine code) are left as-is.
+export async function attachSourceContext(
+  frames: StackFrame[],
+  projectPath: string,
+  contextLines: number = 3,
+  fileCache: Map<string, string[] | null> = new Map()
+): Promise<StackFrame[]> {
+  for (const frame of frames) {
+    if (!frame.file || !frame.line) continue;
+
+    const relativePath = toAssetRelativePath(frame.file, projectPath);
+    if (relativePath === undefined) continue;
+
+    let absolutePath: string;
+    try {
+      absolutePath = await validatePath(relativePath, projectPath);
+    } catch {
+      continue;
+    }
+
+    if (!fileCache.has(absolutePath)) {
+      const content = await fs.readFile(absolutePath, 'utf-8').catch(() => null);
+      fileCache.set(absolutePath, content === null ? null : content.split(/\r?\n/));
+    }
+
+    const lines = fileCache.get(absolutePath);
+    if (!lines) continue;
+
+    frame.projectFile = relativePath;
+
+    const startLine = Math.max(1, frame.line - contextLines);
+    const endLine = Math.min(lines.length, frame.line + contextLines);
+    const width = String(endLine).length;
+    const text = [];
+    for (let lineNumber = startLine; lineNumber <= endLine; lineNumber++) {
+      const marker = lineNumber === frame.line ? '>' : ' ';
+      text.push(`${marker} ${String(lineNumber).padStart(width)} | ${lines[lineNumber - 1]}`);
+    }
+    frame.source = { startLine, endLine, text: text.join('\n') };
+  }
+
+  return frames;
+}
+
+// Path relative to the Assets folder, or undefined for files outside it
+function toAssetRelativePath(file: string, projectPath: string): string | undefined {
+  const normalized = file.replace(/\\/g, '/');
+  const assetsRoot = projectPath.replace(/\\/g, '/').replace(/\/?$/, '/');
+
+  if (normalized.startsWith(assetsRoot)) {
+    return normalized.slice(assetsRoot.length);
+  }
+
+  // Unity reports project files relative to the project root
+  const match = normalized.match(/^(?:\.\/)?Assets\/(.+)$/);
+  if (match) {
+    return match[1];
+  }
+
+  return undefined;
+}
@@ -0,0 +1,252 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { scanCSharp } from './csharpScanner.js';
+import { isIgnoredByUnity } from './guidIndex.js';
+import { CSharpMemberInfo, CSharpTypeInfo } from './types.js';
+
+export interface SymbolMatch {
+  name: string;
+  kind: CSharpTypeInfo['kind'] | CSharpMemberInfo['kind'];
+  // Type name with namespace, or "Type.Member" for members
+  fullName: string;
+  file: string;
+  line: number;
+  type?: string;
+  signature?: string;
+  baseTypes?: string[];
+  serialized?: boolean;
+}
+
+export interface SubclassMatch {
+  name: string;
+  fullName: string;
+  kind: CSharpTypeInfo['kind'];
+  file: string;
+  line: number;
+  baseTypes: string[];
+  // Intermediate base classes between the requested type and this one, nearest last
+  via?: string[];
+}
+
+// Rescans within this window reuse the previous result, as in the GUID index
+const REFRESH_INTERVAL_MS = 2000;
+
+// Unity base classes project scripts commonly derive from, so that e.g. EditorWindow
+// subclasses are also found as ScriptableObject subclasses
+const UNITY_BASE_TYPES: Record<string, string> = {
+  MonoBehaviour: 'Behaviour',
+  Behaviour: 'Component',
+  Component: 'Object',
+  ScriptableObject: 'Object',
+  EditorWindow: 'ScriptableObject',
+  Editor: 'ScriptableObject',
+  ScriptableWizard: 'EditorWindow',
+  StateMachineBehaviour: 'ScriptableObject',
+  UIBehaviour: 'MonoBehaviour'
+};
+
+// Declarations of every .cs file under the Assets folder. Like the GUID index, refreshes
+// only rescan files whose modification time changed.
+export class CSharpSymbolIndex {
+  private files = new Map<string, { mtimeMs: number, types: CSharpTypeInfo[] }>();
+  private refreshing: Promise<void> | null = null;
+  private lastRefresh: number = 0;
+
+  constructor(private readonly assetsPath: string) {}
+
+  public async types(): Promise<CSharpTypeInfo[]> {
+    await this.refresh();
+    return [...this.files.values()].flatMap(file => file.types);
+  }
+
+  public async refresh(): Promise<void> {
+    if (this.refreshing) return this.refreshing;
+    if (Date.now() - this.lastRefresh < REFRESH_INTERVAL_MS) return;
+
+    this.refreshing = this.scan().finally(() => {
+      this.lastRefresh = Date.now();
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async scan(): Promise<void> {
+    const seen = new Set<string>();
+
+    for (const filePath of await findScripts(this.assetsPath)) {
+      const relativePath = path.relative(this.assetsPath, filePath).split(path.sep).join('/');
+      seen.add(relativePath);
+
+      try {
+        const stats = await fs.stat(filePath);
+        if (this.files.get(relativePath)?.mtimeMs === stats.mtimeMs) continue;
+
+        const content = await fs.readFile(filePath, 'utf-8');
+        this.files.set(relativePath, { mtimeMs: stats.mtimeMs, types: scanCSharp(content, relativePath) });
+      } catch (error) {
+        console.error(`[Unity MCP] Error scanning script ${filePath}:`, error);
+      }
+    }
+
+    for (const relativePath of this.files.keys()) {
+      if (!seen.has(relativePath)) this.files.delete(relativePath);
+    }
+  }
+}
+
+const indexes = new Map<string, CSharpSymbolIndex>();
+
+export function getSymbolIndex(assetsPath: string): CSharpSymbolIndex {
+  let index = indexes.get(assetsPath);
+  if (!index) {
+    index = new CSharpSymbolIndex(assetsPath);
+    indexes.set(assetsPath, index);
+  }
+  return index;
+}
+
+// Types and members whose name contains the query (or equals it when exact). "Type.Member"
+// narrows members to types of that name. Exact and prefix matches come first.
+export function findSymbols(types: CSharpTypeInfo[], query: string, kind?: string, exact: boolean = false): SymbolMatch[] {
+  const separator = query.lastIndexOf('.');
+  const typeQuery = separator > 0 ? query.slice(0, separator).toLowerCase() : undefined;
+  const nameQuery = (separator > 0 ? query.slice(separator + 1) : query).toLowerCase();
+
+  const score = (name: string) => {
+    const lower = name.toLowerCase();
+    if (lower === nameQuery) return 0;
+    if (exact) return -1;
+    if (lower.startsWith(nameQuery)) return 1;
+    return lower.includes(nameQuery) ? 2 : -1;
+  };
+  const fullNameMatches = (type: CSharpTypeInfo, name: string) => {
+    const fullName = type.fullName.toLowerCase();
+    return fullName === name || fullName.endsWith(`.${name}`);
+  };
+  const typeMatches = (type: CSharpTypeInfo) => !typeQuery || fullNameMatches(type, typeQuery);
+
+  const matches: { match: SymbolMatch, score: number }[] = [];
+  for (const type of types) {
+    // A qualified query can also name a type, e.g. "Game.Player"
+    const typeScore = typeQuery ? (fullNameMatches(type, query.toLowerCase()) ? 0 : -1) : score(type.name);
+    if (typeScore >= 0 && (!kind || kind === type.kind)) {
+      matches.push({
+        score: typeScore,
+        match: {
+          name: type.name,
+          kind: type.kind,
+          fullName: type.fullName,
+          file: type.file,
+          line: type.line,
+          baseTypes: type.baseTypes.length > 0 ? type.baseTypes : undefined,
+          signature: type.signature
+        }
+      });
+    }
+
+    if (!typeMatches(type)) continue;
+    for (const member of type.members) {
+      const memberScore = score(member.name);
+      if (memberScore < 0 || (kind && kind !== member.kind)) continue;
+      matches.push({
+        // Members rank after types with an equally good name match
+        score: memberScore + 0.5,
+        match: {
+          name: member.name,
+          kind: member.kind,
+          fullName: `${type.fullName}.${member.name}`,
+          file: type.file,
+          line: member.line,
+          type: member.type,
+          signature: member.signature,
+          serialized: member.serialized
+        }
+      });
+    }
+  }
+
+  return matches
+    .sort((a, b) => a.score - b.score || a.match.fullName.localeCompare(b.match.fullName))
+    .map(({ match }) => match);
+}
+
+// Project types deriving from (or implementing) baseType, following project base classes
+// and the common Unity ones. Types are matched by simple name, so same-named types in
+// different namespaces are not told apart.
+export function findSubclasses(types: CSharpTypeInfo[], baseType: string, direct: boolean = false): SubclassMatch[] {
+  const byBase = new Map<string, CSharpTypeInfo[]>();
+  for (const type of types) {
+    for (const base of type.baseTypes) {
+      const name = simpleTypeName(base);
+      byBase.set(name, [...(byBase.get(name) ?? []), type]);
+    }
+  }
+
+  const root = simpleTypeName(baseType);
+  // Start from the requested type and any Unity type deriving from it
+  const queue: { name: string, via: string[] }[] = [{ name: root, via: [] }];
+  if (!direct) {
+    for (const unityType of Object.keys(UNITY_BASE_TYPES)) {
+      const chain: string[] = [];
+      for (let ancestor = UNITY_BASE_TYPES[unityType]; ancestor; ancestor = UNITY_BASE_TYPES[ancestor]) {
+        if (ancestor === root) {
+          queue.push({ name: unityType, via: [...chain.reverse(), unityType] });
+          break;
+        }
+        chain.push(ancestor);
+      }
+    }
+  }
+
+  const results: SubclassMatch[] = [];
+  const visited = new Set<string>(queue.map(entry => entry.name));
+  while (queue.length > 0) {
+    const { name, via } = queue.shift()!;
+    for (const type of byBase.get(name) ?? []) {
+      if (results.some(result => result.fullName === type.fullName && result.file === type.file)) continue;
+
+      results.push({
+        name: type.name,
+        fullName: type.fullName,
+        kind: type.kind,
+        file: type.file,
+        line: type.line,
+        baseTypes: type.baseTypes,
+        ...(via.length > 0 ? { via } : {})
+      });
+      if (!direct && !visited.has(type.name)) {
+        visited.add(type.name);
+        queue.push({ name: type.name, via: [...via, type.name] });
+      }
+    }
+  }
+
+  return results;
+}
+
+// "UnityEngine.MonoBehaviour" -> "MonoBehaviour", "Base<int>" -> "Base"
+function simpleTypeName(typeName: string): string {
+  return typeName.replace(/<.*$/s, '').split('.').pop()!.trim();
+}
+
+async function findScripts(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const results: string[] = [];
+  for (const entry of entries) {
+    if (isIgnoredByUnity(entry.name)) continue;
+
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      results.push(...await findScripts(fullPath));
+    } else if (entry.name.endsWith('.cs')) {
+      results.push(fullPath);
+    }
+  }
+  return results;
+}
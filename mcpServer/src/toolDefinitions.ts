@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import path from 'path';
 import { WebSocketHandler } from './websocketHandler.js';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -7,9 +8,12 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
-import path from 'path';
 // Import handleFilesystemTool using ES module syntax instead of require
-import { handleFilesystemTool } from './filesystemTools.js';
+import { handleFilesystemTool, getProjectPaths } from './filesystemTools.js';
+import { attachSourceContext, parseStackTrace } from './stackTrace.js';
+import { PROJECT_SETTINGS_SECTIONS } from './projectSettings.js';
+import { evaluateCommandPolicy, formatPolicyViolation, loadCommandPolicy, POLICY_FILE_RULE } from './commandPolicy.js';
+import { LogEntry, MCPGameObjectDetail, PlayModeAction, UnityEditorState } from './types.js';
 
 // File operation schemas - defined here to be used in tool definitions
 export const ReadFileArgsSchema = z.object({
@@ -23,6 +27,7 @@ export const ReadMultipleFilesArgsSchema = z.object({
 export const WriteFileArgsSchema = z.object({
   path: z.string().describe('Path to the file to write. Can be absolute or relative to Unity project Assets folder. If empty, defaults to the Assets folder.'),
   content: z.string().describe('Content to write to the file'),
+  waitForCompilation: z.boolean().optional().default(false).describe('For scripts (.cs, .asmdef, ...): have the Unity Editor import the change and wait for compilation, then report compiler errors as wait_for_compilation does'),
 });
 
 export const EditOperation = z.object({
@@ -33,7 +38,8 @@ export const EditOperation = z.object({
 export const EditFileArgsSchema = z.object({
   path: z.string().describe('Path to the file to edit. Can be absolute or relative to Unity project Assets folder. If empty, defaults to the Assets folder.'),
   edits: z.array(EditOperation).describe('Array of edit operations to apply'),
-  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format')
+  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+  waitForCompilation: z.boolean().optional().default(false).describe('For scripts (.cs, .asmdef, ...): have the Unity Editor import the change and wait for compilation, then report compiler errors as wait_for_compilation does'),
 });
 
 export const ListDirectoryArgsSchema = z.object({
@@ -51,22 +57,240 @@ export const SearchFilesArgsSchema = z.object({
   excludePatterns: z.array(z.string()).optional().default([]).describe('Patterns to exclude')
 });
 
+export const GrepFilesArgsSchema = z.object({
+  pattern: z.string().min(1).describe('Text to search for in file contents, or a regular expression when regex is true'),
+  path: z.string().optional().default('').describe('Folder to search in. Can be absolute or relative to Unity project Assets folder. Defaults to the Assets folder.'),
+  regex: z.boolean().optional().default(false).describe('Treat pattern as a JavaScript regular expression'),
+  caseSensitive: z.boolean().optional().default(false).describe('Match case exactly'),
+  includePatterns: z.array(z.string()).optional().default([]).describe('Only search files matching one of these globs, e.g. "*.cs" or "Scripts/**/*.cs"'),
+  excludePatterns: z.array(z.string()).optional().default([]).describe('Skip files and folders matching these patterns, as in search_files'),
+  contextLines: z.number().int().min(0).max(10).optional().default(0).describe('Lines of context to show before and after each match'),
+  maxMatchesPerFile: z.number().int().positive().optional().default(20).describe('Stop reporting matches in a file after this many'),
+  maxResults: z.number().int().positive().optional().default(200).describe('Stop searching after this many matches in total'),
+});
+
 export const GetFileInfoArgsSchema = z.object({
   path: z.string().describe('Path to the file to get info for. Can be absolute or relative to Unity project Assets folder. If empty, defaults to the Assets folder.'),
 });
 
+export const InspectAssetFileArgsSchema = z.object({
+  path: z.string().describe('Path to a text-serialized Unity file (.unity, .prefab, .asset, .mat, ...). Can be absolute or relative to Unity project Assets folder.'),
+  includeProperties: z.boolean().optional().describe('Include the serialized fields of every component and object. Defaults to true for files without GameObjects (materials, ScriptableObjects) and false otherwise.'),
+  maxDepth: z.number().optional().default(-1).describe('Maximum hierarchy depth to return, 0 for root GameObjects only. Set to -1 for unlimited depth.'),
+});
+
+export const FindReferencesArgsSchema = z.object({
+  path: z.string().optional().describe('Asset to find references to. Can be absolute or relative to Unity project Assets folder.'),
+  guid: z.string().optional().describe('GUID of the asset to find references to, instead of its path'),
+  searchPath: z.string().optional().default("").describe('Directory to search in. Can be absolute or relative to Unity project Assets folder. An empty string will search the entire Assets folder.'),
+});
+
+export const MoveAssetArgsSchema = z.object({
+  source: z.string().describe('Asset file or folder to move. Can be absolute or relative to Unity project Assets folder.'),
+  destination: z.string().describe('New path for the asset, including its file name. Must not exist yet.'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards, when it is connected'),
+});
+
+export const RenameAssetArgsSchema = z.object({
+  path: z.string().describe('Asset file or folder to rename. Can be absolute or relative to Unity project Assets folder.'),
+  newName: z.string().describe('New file or folder name, without any directory. The current extension is kept if none is given.'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards, when it is connected'),
+});
+
+export const DeleteAssetArgsSchema = z.object({
+  path: z.string().describe('Asset file or folder to delete, together with its .meta file. Can be absolute or relative to Unity project Assets folder.'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards, when it is connected'),
+});
+
+export const FindUnusedAssetsArgsSchema = z.object({
+  path: z.string().optional().default('').describe('Only report unused assets in this folder. Can be absolute or relative to Unity project Assets folder. Defaults to the whole Assets folder.'),
+  assetTypes: z.array(z.string()).optional().describe('Only report these asset types, e.g. ["Texture", "Material", "Prefab"]'),
+  includeDisabledScenes: z.boolean().optional().default(false).describe('Treat scenes that are in the build list but disabled as used'),
+  limit: z.number().int().positive().optional().default(200).describe('Maximum number of assets to list, largest first'),
+});
+
+export const GetAssetDependenciesArgsSchema = z.object({
+  path: z.string().describe('Scene, prefab, material or other asset to start from. Can be absolute or relative to Unity project Assets folder.'),
+  maxDepth: z.number().int().optional().default(-1).describe('How many reference levels to follow. -1 follows all of them'),
+  format: z.enum(['json', 'dot']).optional().default('json').describe('"json" for the dependency tree and totals, "dot" for a Graphviz graph'),
+  includeTree: z.boolean().optional().default(true).describe('Include the nested dependency tree in the JSON output, not only the flat asset list'),
+});
+
+export const CreateScriptArgsSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'Must be a valid C# class name').describe('Class name, also used as the file name'),
+  template: z.string().min(1).describe('Template to start from: MonoBehaviour, ScriptableObject, EditorWindow, CustomInspector, Test, or a project template (<name>.cs.txt in the MCPScriptTemplates folder, which also overrides built-in templates of the same name)'),
+  path: z.string().optional().default('').describe('Folder to create the script in. Can be absolute or relative to Unity project Assets folder. Defaults to the Assets folder.'),
+  namespace: z.string().optional().describe('Namespace to use instead of deriving it from the nearest .asmdef rootNamespace and the folder path. An empty string puts the class in the global namespace'),
+  menuName: z.string().optional().describe('Menu path for CreateAssetMenu (ScriptableObject) or the MenuItem opening an EditorWindow'),
+  targetType: z.string().optional().describe('Type a CustomInspector edits. Defaults to the class name without an "Editor" or "Inspector" suffix'),
+  parameters: z.record(z.string()).optional().default({}).describe('Values for any other {{placeholders}} in project templates'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards, when it is connected'),
+  waitForCompilation: z.boolean().optional().default(false).describe('Wait for the Unity Editor to compile the new script and report compiler errors, as wait_for_compilation does'),
+});
+
+export const GetAssemblyGraphArgsSchema = z.object({
+  includePackageCache: z.boolean().optional().default(false).describe('Also list assemblies of registry packages (Library/PackageCache). They are always used to resolve references'),
+  format: z.enum(['json', 'dot']).optional().default('json').describe('"json" for the assemblies and their references, "dot" for a Graphviz graph'),
+});
+
+export const WhichAssemblyOwnsArgsSchema = z.object({
+  path: z.string().describe('Script or folder to look up. Can be absolute, relative to the Unity project Assets folder, or start with "Packages/"'),
+});
+
+export const CheckAssemblyGraphArgsSchema = z.object({
+  addReferences: z.array(z.object({
+    from: z.string().describe('Assembly that would get the reference'),
+    to: z.string().describe('Assembly it would reference'),
+  })).optional().default([]).describe('References to try out before adding them: reports the problems they would introduce, such as cycles'),
+});
+
+export const GetBuildScenesArgsSchema = z.object({});
+
+const BuildSceneArgs = z.object({
+  path: z.string().describe('Scene file (.unity). Can be absolute, relative to Unity project Assets folder, or start with "Assets/"'),
+  enabled: z.boolean().optional().default(true).describe('Include the scene in builds. Disabled scenes stay listed but are not built'),
+});
+
+export const SetBuildScenesArgsSchema = z.object({
+  scenes: z.array(BuildSceneArgs).describe('The complete build scene list in build order. The first enabled scene is the one loaded at startup'),
+});
+
+export const AddBuildSceneArgsSchema = BuildSceneArgs.extend({
+  index: z.number().int().min(0).optional().describe('Position in the list. Defaults to the end, or to the current position of a scene that is already listed'),
+});
+
+export const ReorderBuildScenesArgsSchema = z.object({
+  scenes: z.array(z.string()).min(1).describe('Scenes in their new order. Listed scenes move to the front; the others keep their relative order after them'),
+});
+
+export const ListPackagesArgsSchema = z.object({
+  name: z.string().optional().describe('Only show this package, with its full resolved dependency tree'),
+  includeIndirect: z.boolean().optional().default(false).describe('Also list packages installed only as dependencies of other packages'),
+});
+
+export const AddPackageArgsSchema = z.object({
+  name: z.string().describe('Package name, e.g. "com.unity.textmeshpro"'),
+  version: z.string().describe('Semantic version (e.g. "3.0.6"), Git URL (e.g. "https://github.com/user/repo.git?path=/Packages/pkg#v1.2.0") or local "file:" path'),
+  dryRun: z.boolean().optional().default(false).describe('Preview the manifest change as a git-style diff without writing it'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards so it resolves the packages, when it is connected'),
+});
+
+export const RemovePackageArgsSchema = z.object({
+  name: z.string().describe('Package to remove from Packages/manifest.json'),
+  dryRun: z.boolean().optional().default(false).describe('Preview the manifest change as a git-style diff without writing it'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards so it resolves the packages, when it is connected'),
+});
+
+export const SetPackageVersionArgsSchema = z.object({
+  name: z.string().describe('Package already listed in Packages/manifest.json'),
+  version: z.string().describe('New semantic version, Git URL or local "file:" path'),
+  dryRun: z.boolean().optional().default(false).describe('Preview the manifest change as a git-style diff without writing it'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards so it resolves the packages, when it is connected'),
+});
+
+export const GetProjectSettingsArgsSchema = z.object({
+  sections: z.array(z.enum(PROJECT_SETTINGS_SECTIONS)).optional().describe('Only read these sections: "tags" (tags, layers, sorting layers), "build" (build scene list), "player" (company/product name, scripting backend, defines), "quality" (quality levels), "graphics" (render pipeline). Defaults to all of them'),
+});
+
+export const FindSymbolArgsSchema = z.object({
+  name: z.string().min(1).describe('Name to look for (case-insensitive substring). Use "Type.Member" to search the members of one type, or a namespace-qualified type name'),
+  kind: z.enum(['class', 'struct', 'interface', 'enum', 'record', 'delegate', 'method', 'constructor', 'field', 'property', 'event', 'enumMember']).optional().describe('Only return symbols of this kind'),
+  exact: z.boolean().optional().default(false).describe('Only return symbols whose name matches exactly'),
+  limit: z.number().int().positive().optional().default(50).describe('Maximum number of symbols to return'),
+});
+
+export const ListTypesInFileArgsSchema = z.object({
+  path: z.string().describe('Path to a C# script. Can be absolute or relative to Unity project Assets folder.'),
+  includeMembers: z.boolean().optional().default(true).describe('Include methods, fields, properties and events of each type'),
+});
+
+export const FindSubclassesArgsSchema = z.object({
+  baseType: z.string().min(1).describe('Base class or interface name, e.g. "MonoBehaviour", "ScriptableObject", "EditorWindow" or a project type'),
+  direct: z.boolean().optional().default(false).describe('Only return types deriving from baseType directly'),
+});
+
+export const ListChangesArgsSchema = z.object({
+  sessionId: z.string().optional().describe('Session to list, from a previous list_changes result. Defaults to the current server session'),
+  limit: z.number().int().positive().optional().default(20).describe('Maximum number of changes to return, newest first'),
+  includeDiffs: z.boolean().optional().default(true).describe('Include a unified diff of each changed text file'),
+});
+
+export const RevertChangeArgsSchema = z.object({
+  id: z.number().int().positive().describe('Id of the change to revert, as shown by list_changes'),
+  sessionId: z.string().optional().describe('Session the change belongs to. Defaults to the current server session'),
+  force: z.boolean().optional().default(false).describe('Revert even if the files were changed again since'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards, when it is connected'),
+});
+
+export const RevertSessionArgsSchema = z.object({
+  sessionId: z.string().optional().describe('Session to revert. Defaults to the current server session'),
+  force: z.boolean().optional().default(false).describe('Revert even if the files were changed outside the journaled changes'),
+  refresh: z.boolean().optional().default(true).describe('Refresh the AssetDatabase in the Unity Editor afterwards, when it is connected'),
+});
+
 export const FindAssetsByTypeArgsSchema = z.object({
   assetType: z.string().describe('Type of assets to find (e.g., "Material", "Prefab", "Scene", "Script")'),
   searchPath: z.string().optional().default("").describe('Directory to search in. Can be absolute or relative to Unity project Assets folder. An empty string will search the entire Assets folder.'),
   maxDepth: z.number().optional().default(1).describe('Maximum depth to search. 1 means search only in the specified directory, 2 includes immediate subdirectories, and so on. Set to -1 for unlimited depth.'),
 });
 
+// Optional routing argument shared by every Unity Editor tool
+const instanceProperty = {
+  type: 'string',
+  description: 'Unity Editor instance to target (id, project name or project path from list_unity_instances). May be omitted when only one editor is connected.'
+};
+
+// Log filters shared by get_logs and get_log_summary
+const logFilterProperties = {
+  types: {
+    type: 'array',
+    items: {
+      type: 'string',
+      enum: ['Log', 'Warning', 'Error', 'Exception']
+    },
+    description: 'Filter logs by type'
+  },
+  messageContains: {
+    type: 'string',
+    description: 'Filter logs by message content'
+  },
+  stackTraceContains: {
+    type: 'string',
+    description: 'Filter logs by stack trace content'
+  },
+  messageMatches: {
+    type: 'string',
+    description: 'Filter logs by a regular expression on the message'
+  },
+  stackTraceMatches: {
+    type: 'string',
+    description: 'Filter logs by a regular expression on the stack trace'
+  },
+  excludeMessageContains: {
+    type: 'string',
+    description: 'Leave out logs whose message contains this text'
+  },
+  excludeMessageMatches: {
+    type: 'string',
+    description: 'Leave out logs whose message matches this regular expression'
+  },
+  timestampAfter: {
+    type: 'string',
+    description: 'Filter logs after this ISO timestamp'
+  },
+  timestampBefore: {
+    type: 'string',
+    description: 'Filter logs before this ISO timestamp'
+  },
+  includeHistory: {
+    type: 'boolean',
+    description: 'Search the on-disk log history rather than only logs received since the editor connected (default: true)'
+  }
+};
+
 export function registerTools(server: Server, wsHandler: WebSocketHandler) {
   // Determine project path from environment variable (which now should include 'Assets')
-  const projectPath = process.env.UNITY_PROJECT_PATH || path.resolve(process.cwd());
-  const projectRootPath = projectPath.endsWith(`Assets${path.sep}`) 
-    ? projectPath.slice(0, -7) // Remove 'Assets/'
-    : projectPath;
+  const { projectPath, projectRootPath } = getProjectPaths();
 
   console.error(`[Unity MCP ToolDefinitions] Using project path: ${projectPath}`);
   console.error(`[Unity MCP ToolDefinitions] Using project root path: ${projectRootPath}`);
@@ -88,7 +312,8 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
               enum: ['RootObjectsOnly', 'FullHierarchy'],
               description: 'RootObjectsOnly: Returns just root GameObjects. FullHierarchy: Returns complete hierarchy with all children.',
               default: 'RootObjectsOnly'
-            }
+            },
+            instance: instanceProperty
           },
           additionalProperties: false
         },
@@ -118,7 +343,8 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
               enum: ['BasicInfo', 'IncludeComponents', 'IncludeChildren', 'IncludeComponentsAndChildren'],
               description: 'BasicInfo: Basic GameObject information. IncludeComponents: Includes component details. IncludeChildren: Includes child GameObjects. IncludeComponentsAndChildren: Includes both components and a full hierarchy with components on children.',
               default: 'IncludeComponents'
-            }
+            },
+            instance: instanceProperty
           },
           required: ['instanceIDs'],
           additionalProperties: false
@@ -128,9 +354,67 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
           description: 'Returns detailed information about the requested GameObjects'
         }
       },
+      {
+        name: 'get_selection',
+        description: 'Get the GameObjects currently selected in the Unity Editor, with their instance IDs and basic details',
+        category: 'Editor State',
+        tags: ['unity', 'editor', 'selection', 'gameobjects'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns the selected instance IDs and basic information about each selected GameObject'
+        }
+      },
+      {
+        name: 'set_selection',
+        description: 'Select GameObjects in the Unity Editor by instance ID or hierarchy path (e.g. "Environment/Props/Crate"), optionally pinging them in the Hierarchy and framing them in the Scene view. Pass empty arrays to clear the selection.',
+        category: 'Editor Control',
+        tags: ['unity', 'editor', 'selection', 'gameobjects'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            instanceIDs: {
+              type: 'array',
+              items: {
+                type: 'number'
+              },
+              description: 'Instance IDs of the GameObjects to select'
+            },
+            paths: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'Hierarchy paths of the GameObjects to select, from the scene root separated by "/"'
+            },
+            ping: {
+              type: 'boolean',
+              description: 'Highlight the first selected object in the Hierarchy window',
+              default: false
+            },
+            frame: {
+              type: 'boolean',
+              description: 'Frame the selection in the active Scene view',
+              default: false
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns the GameObjects that were selected and any requested objects that could not be found'
+        }
+      },
       {
         name: 'execute_editor_command',
-        description: 'Execute C# code directly in the Unity Editor - allows full flexibility including custom namespaces and multiple classes',
+        description: 'Execute C# code directly in the Unity Editor - allows full flexibility including custom namespaces and multiple classes. Code using risky APIs (processes, file deletion, asset deletion, network access, ...) is checked against the project\'s command policy and may be refused or need confirm: true',
         category: 'Editor Control',
         tags: ['unity', 'editor', 'command', 'c#'],
         inputSchema: {
@@ -140,7 +424,13 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
               type: 'string',
               description: 'C# code to execute in Unity Editor. You MUST define a public class named "McpScript" with a public static method named "Execute" that returns an object. Example: "public class McpScript { public static object Execute() { /* your code here */ return result; } }". You can include any necessary namespaces, additional classes, and methods.',
               minLength: 1
-            }
+            },
+            confirm: {
+              type: 'boolean',
+              description: 'Confirm running code that the command policy flags as needing confirmation. Only set this when the flagged operations are intended',
+              default: false
+            },
+            instance: instanceProperty
           },
           required: ['code'],
           additionalProperties: false
@@ -150,21 +440,149 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
           description: 'Returns the execution result, execution time, and status'
         }
       },
+      {
+        name: 'enter_play_mode',
+        description: 'Enter play mode in the Unity Editor and wait until the editor reports it is playing. Returns immediately if already in play mode.',
+        category: 'Editor Control',
+        tags: ['unity', 'editor', 'playmode'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeoutSeconds: {
+              type: 'number',
+              description: 'How long to wait for the editor to report the new play mode state',
+              minimum: 1,
+              default: 30
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns the previous and final play mode state'
+        }
+      },
+      {
+        name: 'exit_play_mode',
+        description: 'Exit play mode in the Unity Editor and wait until the editor is back in edit mode. Returns immediately if not in play mode.',
+        category: 'Editor Control',
+        tags: ['unity', 'editor', 'playmode'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeoutSeconds: {
+              type: 'number',
+              description: 'How long to wait for the editor to report the new play mode state',
+              minimum: 1,
+              default: 30
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns the previous and final play mode state'
+        }
+      },
+      {
+        name: 'pause_play_mode',
+        description: 'Pause or resume the running game in the Unity Editor. Requires the editor to be in play mode.',
+        category: 'Editor Control',
+        tags: ['unity', 'editor', 'playmode'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            paused: {
+              type: 'boolean',
+              description: 'true to pause, false to resume',
+              default: true
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'How long to wait for the editor to report the new play mode state',
+              minimum: 1,
+              default: 30
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns the previous and final play mode state'
+        }
+      },
+      {
+        name: 'step_frame',
+        description: 'Advance the game by a single frame and leave it paused. Requires the editor to be in play mode.',
+        category: 'Editor Control',
+        tags: ['unity', 'editor', 'playmode'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            timeoutSeconds: {
+              type: 'number',
+              description: 'How long to wait for the editor to report the new play mode state',
+              minimum: 1,
+              default: 30
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns the previous and final play mode state'
+        }
+      },
+      {
+        name: 'wait_for_compilation',
+        description: 'Wait for the Unity Editor to finish compiling scripts (including the domain reload after a successful compile) and return the C# compiler errors and warnings it logged, with file, line, column and CS error code. Use after changing scripts instead of polling get_logs.',
+        category: 'Debugging',
+        tags: ['unity', 'editor', 'compilation', 'scripts', 'debugging'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            refresh: {
+              type: 'boolean',
+              description: 'Ask the editor to import changed files first, so compilation starts even when Auto Refresh is off',
+              default: true
+            },
+            startTimeoutSeconds: {
+              type: 'number',
+              description: 'How long to wait for compilation to start before reporting that it did not (e.g. the scripts were already up to date)',
+              minimum: 1,
+              default: 5
+            },
+            timeoutSeconds: {
+              type: 'number',
+              description: 'How long to wait for compilation and the domain reload to finish',
+              minimum: 1,
+              default: 120
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns status (succeeded, failed or notStarted), durationMs, domainReloaded and the errors and warnings, each with severity, file, line, column, code and message'
+        }
+      },
       {
         name: 'get_logs',
-        description: 'Retrieve Unity Editor logs with filtering options',
+        description: 'Retrieve Unity Editor logs with filtering options. Searches the persisted log history across server restarts unless includeHistory is false, and works without a connected editor by reading that history. Pass the returned nextCursor as sinceCursor to get only entries received since',
         category: 'Debugging',
         tags: ['unity', 'editor', 'logs', 'debugging'],
         inputSchema: {
           type: 'object',
           properties: {
-            types: {
-              type: 'array',
-              items: {
-                type: 'string',
-                enum: ['Log', 'Warning', 'Error', 'Exception']
-              },
-              description: 'Filter logs by type'
+            ...logFilterProperties,
+            sinceCursor: {
+              type: 'string',
+              description: 'Only return entries received after this cursor (nextCursor of an earlier call), oldest first'
             },
             count: {
               type: 'number',
@@ -180,28 +598,92 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
               },
               description: 'Specify which fields to include in the output'
             },
+            includeStackFrames: {
+              type: 'boolean',
+              description: 'Add a parsed "frames" array to each entry (namespace, class, method, file, line), with surrounding source lines for project scripts'
+            },
+            sourceContextLines: {
+              type: 'number',
+              description: 'Source lines to include above and below each project frame when includeStackFrames is set (default: 3)',
+              minimum: 0,
+              maximum: 20
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns logs (log entries matching the filters, each with its sequence number), nextCursor and hasMore (more entries matched than count)'
+        }
+      },
+      {
+        name: 'explain_log_entry',
+        description: 'Parse the stack trace of a log entry into frames and show the surrounding source of each project script it passes through. Defaults to the most recent error or exception',
+        category: 'Debugging',
+        tags: ['unity', 'editor', 'logs', 'debugging', 'stacktrace'],
+        inputSchema: {
+          type: 'object',
+          properties: {
             messageContains: {
               type: 'string',
-              description: 'Filter logs by message content'
+              description: 'Explain the most recent log entry whose message contains this text'
             },
-            stackTraceContains: {
-              type: 'string',
-              description: 'Filter logs by stack trace content'
+            sequence: {
+              type: 'number',
+              description: 'Explain the log entry with this sequence number (as returned by get_logs)'
             },
-            timestampAfter: {
+            timestamp: {
               type: 'string',
-              description: 'Filter logs after this ISO timestamp'
+              description: 'Explain the log entry with exactly this timestamp (as returned by get_logs)'
             },
-            timestampBefore: {
+            stackTrace: {
               type: 'string',
-              description: 'Filter logs before this ISO timestamp'
-            }
+              description: 'Explain this stack trace instead of looking up a log entry'
+            },
+            contextLines: {
+              type: 'number',
+              description: 'Source lines to include above and below each project frame (default: 5)',
+              minimum: 0,
+              maximum: 50
+            },
+            instance: instanceProperty
           },
           additionalProperties: false
         },
         returns: {
-          type: 'array',
-          description: 'Returns an array of log entries matching the specified filters'
+          type: 'object',
+          description: 'Returns the log entry, its parsed frames with source context, and the first frame in a project script'
+        }
+      },
+      {
+        name: 'get_log_summary',
+        description: 'Summarize Unity Editor logs by grouping repeated messages (same type, normalized message and top stack frame). Use this instead of get_logs when the console is flooded with repeats',
+        category: 'Debugging',
+        tags: ['unity', 'editor', 'logs', 'debugging'],
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...logFilterProperties,
+            count: {
+              type: 'number',
+              description: 'Number of most recent matching log entries to summarize (default: 1000)',
+              minimum: 1,
+              maximum: 100000
+            },
+            maxGroups: {
+              type: 'number',
+              description: 'Maximum number of groups to return, most frequent first (default: 50)',
+              minimum: 1,
+              maximum: 1000
+            },
+            instance: instanceProperty
+          },
+          additionalProperties: false
+        },
+        returns: {
+          type: 'object',
+          description: 'Returns totalEntries, groupCount and groups, each with logType, normalizedMessage, topFrame, count, first/last timestamps and the message and stack trace of its most recent occurrence'
         }
       },
       {
@@ -211,7 +693,9 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         tags: ['unity', 'editor', 'connection'],
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            instance: instanceProperty
+          },
           additionalProperties: false
         },
         returns: {
@@ -219,6 +703,21 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
           description: 'Returns connection status information'
         }
       },
+      {
+        name: 'list_unity_instances',
+        description: 'List the Unity Editor instances known to the MCP server, with their project and connection status. Use the id or project name as the instance argument of other Unity tools when more than one editor is connected.',
+        category: 'Connection',
+        tags: ['unity', 'editor', 'connection', 'instances'],
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          additionalProperties: false
+        },
+        returns: {
+          type: 'array',
+          description: 'Returns the registered Unity Editor instances'
+        }
+      },
       {
         name: 'get_editor_state',
         description: 'Get the current Unity Editor state including project information',
@@ -226,7 +725,9 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         tags: ['unity', 'editor', 'project'],
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            instance: instanceProperty
+          },
           additionalProperties: false
         },
         returns: {
@@ -285,6 +786,13 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         tags: ['unity', 'filesystem', 'search'],
         inputSchema: zodToJsonSchema(SearchFilesArgsSchema),
       },
+      {
+        name: "grep_files",
+        description: "Search the contents of text files in the Unity project for a string or regular expression. Returns path:line:column hits relative to the Assets folder, with optional context lines. Binary files are skipped.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'search', 'grep'],
+        inputSchema: zodToJsonSchema(GrepFilesArgsSchema),
+      },
       {
         name: "get_file_info",
         description: "Retrieve detailed metadata about a file or directory in the Unity project.",
@@ -299,21 +807,209 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         tags: ['unity', 'filesystem', 'assets', 'search'],
         inputSchema: zodToJsonSchema(FindAssetsByTypeArgsSchema),
       },
+      {
+        name: "inspect_asset_file",
+        description: "Parse a scene, prefab or other text-serialized Unity file from disk into a GameObject/component tree with prefab instances resolved to their source prefab GUIDs. Works without a connected Unity Editor.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'assets', 'scene', 'prefab'],
+        inputSchema: zodToJsonSchema(InspectAssetFileArgsSchema),
+      },
+      {
+        name: "find_references",
+        description: "Find every scene, prefab and asset that references an asset (by path or GUID), including the referencing object and field. Works from the .meta GUIDs on disk, without a connected Unity Editor.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'assets', 'references', 'guid'],
+        inputSchema: zodToJsonSchema(FindReferencesArgsSchema),
+      },
+      {
+        name: "move_asset",
+        description: "Move an asset file or folder within the Unity project together with its .meta file, so its GUID and every reference to it are kept. Refuses to overwrite existing assets.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'assets', 'move'],
+        inputSchema: zodToJsonSchema(MoveAssetArgsSchema),
+      },
+      {
+        name: "rename_asset",
+        description: "Rename an asset file or folder in place together with its .meta file, so its GUID and every reference to it are kept. Refuses to overwrite existing assets.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'assets', 'rename'],
+        inputSchema: zodToJsonSchema(RenameAssetArgsSchema),
+      },
+      {
+        name: "delete_asset",
+        description: "Delete an asset file or folder from the Unity project together with its .meta file. Use find_references first to check nothing still uses it.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'assets', 'delete'],
+        inputSchema: zodToJsonSchema(DeleteAssetArgsSchema),
+      },
+      {
+        name: "find_unused_assets",
+        description: "Report assets that nothing in the build references, by type and size. Follows GUID references from the build scenes, Resources folders, Addressables groups and ProjectSettings, entirely from disk. Scripts, plugins and Editor-only folders are never reported.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'assets', 'references', 'cleanup'],
+        inputSchema: zodToJsonSchema(FindUnusedAssetsArgsSchema),
+      },
+      {
+        name: "get_asset_dependencies",
+        description: "Resolve everything a scene, prefab or material depends on by following GUID references recursively, with asset types and file sizes. Exports JSON (tree, totals by type) or a Graphviz DOT graph.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'assets', 'references', 'dependencies'],
+        inputSchema: zodToJsonSchema(GetAssetDependenciesArgsSchema),
+      },
+      {
+        name: "create_script",
+        description: "Create a C# script from a template (MonoBehaviour, ScriptableObject with CreateAssetMenu, EditorWindow, custom Inspector or NUnit test, or a project template). The namespace is derived from the nearest .asmdef rootNamespace and the folder path. Never overwrites an existing file.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scripts', 'c#', 'create'],
+        inputSchema: zodToJsonSchema(CreateScriptArgsSchema),
+      },
+      {
+        name: "get_assembly_graph",
+        description: "Parse every .asmdef and .asmref under Assets and Packages into the project's assembly graph: references (resolved by name or GUID), referencing assemblies, platforms, define constraints and rootNamespace. Exports JSON or a Graphviz DOT graph.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scripts', 'assemblies', 'asmdef'],
+        inputSchema: zodToJsonSchema(GetAssemblyGraphArgsSchema),
+      },
+      {
+        name: "which_assembly_owns",
+        description: "Tell which assembly a script or folder is compiled into - the nearest .asmdef or .asmref, or one of the predefined Assembly-CSharp assemblies - with its rootNamespace and references. Check this before writing a script that uses types from another assembly.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scripts', 'assemblies', 'asmdef'],
+        inputSchema: zodToJsonSchema(WhichAssemblyOwnsArgsSchema),
+      },
+      {
+        name: "check_assembly_graph",
+        description: "Check assembly definitions for reference cycles, missing references, player assemblies referencing Editor-only ones, duplicate names and folders with several definitions. Pass addReferences to see what a new reference would break before adding it.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scripts', 'assemblies', 'asmdef', 'validation'],
+        inputSchema: zodToJsonSchema(CheckAssemblyGraphArgsSchema),
+      },
+      {
+        name: "get_project_settings",
+        description: "Read the project's tags, layers, sorting layers, build scene list, player settings (company and product name, scripting backend, define symbols), quality levels and render pipeline from the ProjectSettings files. Works without the Unity Editor connected.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'settings', 'tags', 'layers', 'build'],
+        inputSchema: zodToJsonSchema(GetProjectSettingsArgsSchema),
+      },
+      {
+        name: "get_build_scenes",
+        description: "Get the build scene list with build indices and enabled flags, from the Unity Editor when it is connected or from ProjectSettings/EditorBuildSettings.asset otherwise. Scenes that no longer exist are flagged as missing.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scenes', 'build'],
+        inputSchema: zodToJsonSchema(GetBuildScenesArgsSchema),
+      },
+      {
+        name: "set_build_scenes",
+        description: "Replace the build scene list. Goes through the Unity Editor when it is connected so the change applies immediately, otherwise edits ProjectSettings/EditorBuildSettings.asset. Journaled (undo with revert_change).",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scenes', 'build', 'write'],
+        inputSchema: zodToJsonSchema(SetBuildScenesArgsSchema),
+      },
+      {
+        name: "add_build_scene",
+        description: "Add a scene to the build scene list, or enable, disable or move one that is already listed. Use this after creating a scene so it is part of the build.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scenes', 'build', 'write'],
+        inputSchema: zodToJsonSchema(AddBuildSceneArgsSchema),
+      },
+      {
+        name: "reorder_build_scenes",
+        description: "Reorder the build scene list, e.g. to make a scene the one loaded at startup (build index 0).",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scenes', 'build', 'write'],
+        inputSchema: zodToJsonSchema(ReorderBuildScenesArgsSchema),
+      },
+      {
+        name: "list_packages",
+        description: "List the project's packages from Packages/manifest.json with the versions Unity resolved them to (Packages/packages-lock.json), their source and dependencies. Pass a name for one package's full dependency tree.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'packages', 'manifest'],
+        inputSchema: zodToJsonSchema(ListPackagesArgsSchema),
+      },
+      {
+        name: "add_package",
+        description: "Add a package to Packages/manifest.json by registry version, Git URL or local file: path. The manifest keeps its formatting, and the change is shown as a diff and journaled (undo with revert_change).",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'packages', 'manifest', 'write'],
+        inputSchema: zodToJsonSchema(AddPackageArgsSchema),
+      },
+      {
+        name: "remove_package",
+        description: "Remove a package from Packages/manifest.json, reporting packages that still depend on it. The change is shown as a diff and journaled (undo with revert_change).",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'packages', 'manifest', 'write'],
+        inputSchema: zodToJsonSchema(RemovePackageArgsSchema),
+      },
+      {
+        name: "set_package_version",
+        description: "Change the version, Git URL or file: path of a package in Packages/manifest.json. The change is shown as a diff and journaled (undo with revert_change).",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'packages', 'manifest', 'write'],
+        inputSchema: zodToJsonSchema(SetPackageVersionArgsSchema),
+      },
+      {
+        name: "find_symbol",
+        description: "Find C# declarations in the project's scripts by name: classes, structs, interfaces, enums, methods, fields, properties and events, with file and line. Much cheaper than reading whole files.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scripts', 'symbols', 'search'],
+        inputSchema: zodToJsonSchema(FindSymbolArgsSchema),
+      },
+      {
+        name: "list_types_in_file",
+        description: "List the types declared in a C# script with their base types and members, marking fields Unity serializes.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scripts', 'symbols'],
+        inputSchema: zodToJsonSchema(ListTypesInFileArgsSchema),
+      },
+      {
+        name: "find_subclasses",
+        description: "Find the project types deriving from a class or implementing an interface, e.g. all MonoBehaviour, ScriptableObject or EditorWindow subclasses. Includes indirect subclasses unless direct is set.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'scripts', 'symbols', 'inheritance'],
+        inputSchema: zodToJsonSchema(FindSubclassesArgsSchema),
+      },
+      {
+        name: "list_changes",
+        description: "List the files changed by write_file, edit_file and the asset tools in this server session (or an earlier one), with a diff of each change.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'history', 'diff'],
+        inputSchema: zodToJsonSchema(ListChangesArgsSchema),
+      },
+      {
+        name: "revert_change",
+        description: "Undo one change listed by list_changes, restoring the files it touched. Refuses if they were changed again since, unless force is set.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'history', 'undo'],
+        inputSchema: zodToJsonSchema(RevertChangeArgsSchema),
+      },
+      {
+        name: "revert_session",
+        description: "Undo every change made in a server session, restoring all files it touched to how they were before it.",
+        category: "Filesystem",
+        tags: ['unity', 'filesystem', 'history', 'undo'],
+        inputSchema: zodToJsonSchema(RevertSessionArgsSchema),
+      },
     ],
   }));
 
   // Handle tool calls
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
+    const instance = args?.instance as string | undefined;
 
     // Special case for verify_connection which should work even if not connected
     if (name === 'verify_connection') {
       try {
-        const isConnected = wsHandler.isConnected();
+        const isConnected = wsHandler.isConnected(instance);
+        const instances = wsHandler.listInstances().filter(info => info.connected);
         
         // Always request fresh editor state if connected
         if (isConnected) {
-          wsHandler.requestEditorState();
+          if (instance) {
+            wsHandler.requestEditorState(instance);
+          } else {
+            instances.forEach(info => wsHandler.requestEditorState(info.id));
+          }
         }
         
         return {
@@ -321,6 +1017,7 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
             type: 'text',
             text: JSON.stringify({
               connected: isConnected,
+              connectedInstances: instances.map(info => info.id),
               timestamp: new Date().toISOString(),
               message: isConnected 
                 ? 'Unity Editor is connected' 
@@ -343,16 +1040,33 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
       }
     }
 
+    // Listing instances should also work when nothing is connected
+    if (name === 'list_unity_instances') {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(wsHandler.listInstances(), null, 2)
+        }]
+      };
+    }
+
     // Check if this is a filesystem tool
     const filesystemTools = [
       "read_file", "read_multiple_files", "write_file", "edit_file", 
-      "list_directory", "directory_tree", "search_files", "get_file_info", 
-      "find_assets_by_type"
+      "list_directory", "directory_tree", "search_files", "grep_files", "get_file_info", 
+      "find_assets_by_type", "inspect_asset_file", "find_references",
+      "move_asset", "rename_asset", "delete_asset",
+      "list_changes", "revert_change", "revert_session",
+      "find_symbol", "list_types_in_file", "find_subclasses", "find_unused_assets",
+      "get_asset_dependencies", "create_script",
+      "get_assembly_graph", "which_assembly_owns", "check_assembly_graph",
+      "list_packages", "add_package", "remove_package", "set_package_version", "get_project_settings",
+      "get_build_scenes", "set_build_scenes", "add_build_scene", "reorder_build_scenes"
     ];
     
     if (filesystemTools.includes(name)) {
       try {
-        return await handleFilesystemTool(name, args, projectPath);
+        return await handleFilesystemTool(name, args, projectPath, wsHandler);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         return {
@@ -362,8 +1076,11 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
       }
     }
 
+    // Log tools can read the persisted history without an editor
+    const offlineLogTools = ['get_logs', 'get_log_summary', 'explain_log_entry'];
+
     // For all other tools (Unity-specific), verify connection first
-    if (!wsHandler.isConnected()) {
+    if (!offlineLogTools.includes(name) && !wsHandler.isConnected(instance)) {
       throw new McpError(
         ErrorCode.InternalError,
         'Unity Editor is not connected. Please first verify the connection using the verify_connection tool, ' +
@@ -375,13 +1092,13 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
       case 'get_editor_state': {
         try {
           // Always request a fresh editor state before returning
-          wsHandler.requestEditorState();
+          wsHandler.requestEditorState(instance);
           
           // Wait a moment for the response to arrive
           await new Promise(resolve => setTimeout(resolve, 1000));
           
           // Return the current editor state
-          const editorState = wsHandler.getEditorState();
+          const editorState = wsHandler.getEditorState(instance);
           
           return {
             content: [{
@@ -402,7 +1119,7 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
           const detailLevel = (args?.detailLevel as string) || 'RootObjectsOnly';
           
           // Send request to Unity and wait for response
-          const sceneInfo = await wsHandler.requestSceneInfo(detailLevel);
+          const sceneInfo = await wsHandler.requestSceneInfo(detailLevel, instance);
           
           return {
             content: [{
@@ -431,7 +1148,7 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
           const detailLevel = (args?.detailLevel as string) || 'IncludeComponents';
           
           // Send request to Unity and wait for response
-          const gameObjectsInfo = await wsHandler.requestGameObjectsInfo(instanceIDs, detailLevel);
+          const gameObjectsInfo = await wsHandler.requestGameObjectsInfo(instanceIDs, detailLevel, instance);
           
           return {
             content: [{
@@ -447,6 +1164,77 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         }
       }
 
+      case 'get_selection': {
+        try {
+          // Make sure the selection reflects what is in the editor right now
+          const editorState = await wsHandler.waitForEditorState(() => true, 5000, instance);
+          const instanceIDs = editorState.selectedInstanceIDs ?? [];
+          
+          const objects = instanceIDs.length > 0
+            ? await wsHandler.requestGameObjectsInfo(instanceIDs, 'BasicInfo', instance)
+            : [];
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                count: instanceIDs.length,
+                instanceIDs,
+                objects
+              }, null, 2)
+            }]
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to get selection: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+      
+      case 'set_selection': {
+        const instanceIDs = args?.instanceIDs as number[] | undefined;
+        const paths = args?.paths as string[] | undefined;
+        
+        if (!Array.isArray(instanceIDs) && !Array.isArray(paths)) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            'Provide instanceIDs and/or paths to select'
+          );
+        }
+        
+        try {
+          const selected: MCPGameObjectDetail[] = await wsHandler.setSelection({
+            instanceIDs,
+            paths,
+            ping: args?.ping as boolean | undefined,
+            frame: args?.frame as boolean | undefined
+          }, instance) ?? [];
+          
+          // Report anything Unity could not resolve so the agent doesn't assume it was selected
+          const notFound = {
+            instanceIDs: (instanceIDs ?? []).filter(id => !selected.some(obj => obj.instanceID === id)),
+            paths: (paths ?? []).filter(p => !selected.some(obj => obj.path === p.replace(/^\/+|\/+$/g, '')))
+          };
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                count: selected.length,
+                selected,
+                notFound
+              }, null, 2)
+            }]
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to set selection: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
       case 'execute_editor_command': {
         try {
           if (!args?.code) {
@@ -456,8 +1244,32 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
             );
           }
 
+          const { projectRootPath } = getProjectPaths();
+          const policyPath = process.env.MCP_COMMAND_POLICY_PATH || path.join(projectRootPath, 'MCPCommandPolicy.json');
+          const policy = await loadCommandPolicy(policyPath, process.env.MCP_COMMAND_POLICY);
+          const { action, violations } = evaluateCommandPolicy(args.code as string, policy);
+          const listed = violations.map(violation => `- ${formatPolicyViolation(violation)}`).join('\n');
+          
+          if (action === 'block') {
+            const allowable = violations.find(violation => violation.action === 'block' && violation.rule !== POLICY_FILE_RULE);
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `The command policy blocks this code:\n${listed}` +
+              (allowable
+                ? `\nIf this project needs it, allow the rule or API in ${policyPath} (e.g. "allow": ["${allowable.rule}"])`
+                : `\nThe policy file can't be changed through execute_editor_command; edit ${policyPath} directly`)
+            );
+          }
+          if (action === 'confirm' && args.confirm !== true) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `The command policy requires confirmation for this code:\n${listed}\n` +
+              'Run it again with confirm: true if these operations are intended'
+            );
+          }
+
           const startTime = Date.now();
-          const result = await wsHandler.executeEditorCommand(args.code as string);
+          const result = await wsHandler.executeEditorCommand(args.code as string, undefined, instance);
           const executionTime = Date.now() - startTime;
 
           return {
@@ -466,11 +1278,14 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
               text: JSON.stringify({
                 result,
                 executionTime: `${executionTime}ms`,
-                status: 'success'
+                status: 'success',
+                policyWarnings: violations.length > 0 ? violations.map(formatPolicyViolation) : undefined
               }, null, 2)
             }]
           };
         } catch (error) {
+          if (error instanceof McpError) throw error;
+          
           if (error instanceof Error) {
             if (error.message.includes('timed out')) {
               throw new McpError(
@@ -501,7 +1316,53 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         }
       }
 
+      case 'enter_play_mode':
+      case 'exit_play_mode':
+      case 'pause_play_mode':
+      case 'step_frame': {
+        try {
+          const result = await handlePlayModeTool(name, args, wsHandler, instance);
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (error instanceof McpError) throw error;
+          
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to change play mode: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      case 'wait_for_compilation': {
+        try {
+          const result = await wsHandler.waitForCompilation({
+            refresh: (args?.refresh as boolean | undefined) ?? true,
+            startTimeoutMs: ((args?.startTimeoutSeconds as number | undefined) ?? 5) * 1000,
+            timeoutMs: ((args?.timeoutSeconds as number | undefined) ?? 120) * 1000
+          }, instance);
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }]
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to wait for compilation: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
       case 'get_logs': {
+        validateTimestamps(args, 'timestampAfter', 'timestampBefore');
         try {
           const options = {
             types: args?.types as string[] | undefined,
@@ -509,16 +1370,33 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
             fields: args?.fields as string[] | undefined,
             messageContains: args?.messageContains as string | undefined,
             stackTraceContains: args?.stackTraceContains as string | undefined,
+            messageMatches: args?.messageMatches as string | undefined,
+            stackTraceMatches: args?.stackTraceMatches as string | undefined,
+            excludeMessageContains: args?.excludeMessageContains as string | undefined,
+            excludeMessageMatches: args?.excludeMessageMatches as string | undefined,
             timestampAfter: args?.timestampAfter as string | undefined,
-            timestampBefore: args?.timestampBefore as string | undefined
+            timestampBefore: args?.timestampBefore as string | undefined,
+            includeHistory: args?.includeHistory as boolean | undefined,
+            includeStackFrames: args?.includeStackFrames as boolean | undefined,
+            sinceCursor: args?.sinceCursor as string | undefined
           };
           
-          const logs = wsHandler.getLogEntries(options);
+          const page = await wsHandler.getLogEntries(options, instance);
+
+          if (options.includeStackFrames) {
+            const contextLines = (args?.sourceContextLines as number | undefined) ?? 3;
+            const fileCache = new Map<string, string[] | null>();
+            for (const log of page.logs) {
+              if (log.frames) {
+                await attachSourceContext(log.frames, projectPath, contextLines, fileCache);
+              }
+            }
+          }
 
           return {
             content: [{
               type: 'text',
-              text: JSON.stringify(logs, null, 2)
+              text: JSON.stringify(page, null, 2)
             }]
           };
         } catch (error) {
@@ -529,6 +1407,98 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         }
       }
 
+      case 'explain_log_entry': {
+        validateTimestamps(args, 'timestamp');
+        try {
+          let entry: Partial<LogEntry> | undefined;
+
+          if (typeof args?.stackTrace === 'string') {
+            entry = { stackTrace: args.stackTrace };
+          } else if (typeof args?.sequence === 'number') {
+            const { logs } = await wsHandler.getLogEntries({
+              sinceCursor: String(args.sequence - 1),
+              count: 1
+            }, instance);
+            entry = logs.find(log => log.sequence === args.sequence);
+          } else {
+            const messageContains = args?.messageContains as string | undefined;
+            const timestamp = args?.timestamp as string | undefined;
+            // Without any selector, explain the latest problem rather than the latest message
+            const types = messageContains || timestamp ? undefined : ['Error', 'Exception', 'Assert'];
+
+            [entry] = (await wsHandler.getLogEntries({
+              types,
+              messageContains,
+              timestampAfter: timestamp,
+              timestampBefore: timestamp,
+              count: 1
+            }, instance)).logs;
+          }
+
+          if (!entry) {
+            throw new McpError(ErrorCode.InvalidParams, 'No matching log entry found');
+          }
+
+          const frames = await attachSourceContext(
+            parseStackTrace(entry.stackTrace ?? ''),
+            projectPath,
+            (args?.contextLines as number | undefined) ?? 5
+          );
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                message: entry.message,
+                logType: entry.logType,
+                sequence: entry.sequence,
+                timestamp: entry.timestamp,
+                firstProjectFrame: frames.find(frame => frame.projectFile),
+                frames
+              }, null, 2)
+            }]
+          };
+        } catch (error) {
+          if (error instanceof McpError) throw error;
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to explain log entry: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      case 'get_log_summary': {
+        validateTimestamps(args, 'timestampAfter', 'timestampBefore');
+        try {
+          const summary = await wsHandler.getLogSummary({
+            types: args?.types as string[] | undefined,
+            count: args?.count as number | undefined,
+            maxGroups: args?.maxGroups as number | undefined,
+            messageContains: args?.messageContains as string | undefined,
+            stackTraceContains: args?.stackTraceContains as string | undefined,
+            messageMatches: args?.messageMatches as string | undefined,
+            stackTraceMatches: args?.stackTraceMatches as string | undefined,
+            excludeMessageContains: args?.excludeMessageContains as string | undefined,
+            excludeMessageMatches: args?.excludeMessageMatches as string | undefined,
+            timestampAfter: args?.timestampAfter as string | undefined,
+            timestampBefore: args?.timestampBefore as string | undefined,
+            includeHistory: args?.includeHistory as boolean | undefined
+          }, instance);
+
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify(summary, null, 2)
+            }]
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to summarize logs: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
       default:
         throw new McpError(
           ErrorCode.MethodNotFound,
@@ -536,4 +1506,88 @@ export function registerTools(server: Server, wsHandler: WebSocketHandler) {
         );
     }
   });
+}
+
+// Send a play mode change to Unity and wait until the editor state reflects it
+async function handlePlayModeTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  wsHandler: WebSocketHandler,
+  instance?: string
+) {
+  const timeoutMs = ((args?.timeoutSeconds as number | undefined) ?? 30) * 1000;
+  const isStopped = (state: UnityEditorState) => state.playModeState === 'Stopped';
+
+  // Start from a fresh state so we don't act on a stale playModeState
+  const initialState = await wsHandler.waitForEditorState(() => true, 5000, instance);
+  const previousPlayModeState = initialState.playModeState;
+
+  let action: PlayModeAction;
+  let isDone: (state: UnityEditorState) => boolean;
+
+  switch (name) {
+    case 'enter_play_mode':
+      action = 'enter';
+      isDone = state => !isStopped(state);
+      break;
+
+    case 'exit_play_mode':
+      action = 'exit';
+      isDone = isStopped;
+      break;
+
+    case 'pause_play_mode': {
+      const paused = (args?.paused as boolean | undefined) ?? true;
+      action = paused ? 'pause' : 'resume';
+      isDone = state => state.playModeState === (paused ? 'Paused' : 'Playing');
+      break;
+    }
+
+    case 'step_frame':
+      action = 'step';
+      isDone = state => state.playModeState === 'Paused';
+      break;
+
+    default:
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+  }
+
+  if ((action === 'pause' || action === 'resume' || action === 'step') && isStopped(initialState)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${name} requires the Unity Editor to be in play mode. Use enter_play_mode first.`
+    );
+  }
+
+  // Stepping always produces a new frame; everything else is a no-op when already in the target state
+  if (action !== 'step' && isDone(initialState)) {
+    return {
+      previousPlayModeState,
+      playModeState: initialState.playModeState,
+      changed: false,
+      currentScenePath: initialState.currentScenePath,
+      timestamp: initialState.timestamp
+    };
+  }
+
+  wsHandler.sendPlayModeCommand(action, instance);
+  const finalState = await wsHandler.waitForEditorState(isDone, timeoutMs, instance);
+
+  return {
+    previousPlayModeState,
+    playModeState: finalState.playModeState,
+    changed: true,
+    currentScenePath: finalState.currentScenePath,
+    timestamp: finalState.timestamp
+  };
+}
+
+// The log store compares parsed timestamps, so an unreadable one would silently match nothing
+function validateTimestamps(args: Record<string, unknown> | undefined, ...names: string[]): void {
+  for (const name of names) {
+    const value = args?.[name];
+    if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+      throw new McpError(ErrorCode.InvalidParams, `${name} must be an ISO timestamp, got ${JSON.stringify(value)}`);
+    }
+  }
 }
\ No newline at end of file
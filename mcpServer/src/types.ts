@@ -4,9 +4,11 @@
 export interface UnityEditorState {
   activeGameObjects: any[];
   selectedObjects: any[];
+  selectedInstanceIDs?: number[];
   playModeState: string;
   sceneHierarchy: any;
   projectName?: string;
+  projectPath?: string;
   unityVersion?: string;
   renderPipeline?: string;
   buildTarget?: string;
@@ -15,6 +17,26 @@ export interface UnityEditorState {
   currentScenePath?: string;
   timestamp?: string;
   availableMenuItems?: string[];
+  // Scripts are being compiled, or assets imported; absent for older plugin versions
+  isCompiling?: boolean;
+  isUpdating?: boolean;
+}
+
+// Summary of a Unity Editor registered with the server
+export interface UnityInstanceInfo {
+  id: string;
+  projectName?: string;
+  projectPath?: string;
+  unityVersion?: string;
+  currentScenePath?: string;
+  playModeState: string;
+  connected: boolean;
+  connectedAt: string;
+  lastHeartbeat: string;
+  logCount: number;
+  // Entries in the on-disk log history, when log persistence is enabled
+  persistedLogCount?: number;
+  logStorePath?: string;
 }
 
 // Log entry from Unity
@@ -23,6 +45,94 @@ export interface LogEntry {
   stackTrace: string;
   logType: string;
   timestamp: string;
+  // Assigned by the server when the entry is received; increases monotonically
+  sequence?: number;
+  // Parsed stackTrace, only present when requested from get_logs
+  frames?: StackFrame[];
+}
+
+// One frame of a parsed Unity stack trace
+export interface StackFrame {
+  raw: string;
+  namespace?: string;
+  className?: string;
+  method?: string;
+  parameters?: string;
+  file?: string;
+  line?: number;
+  // Set when the file is a project script, relative to the Assets folder
+  projectFile?: string;
+  source?: {
+    startLine: number;
+    endLine: number;
+    // Numbered source lines, the frame's own line marked with ">"
+    text: string;
+  };
+}
+
+// A C# compiler error or warning, parsed from the console message Unity logs for it
+export interface CompilerDiagnostic {
+  severity: 'error' | 'warning';
+  // As reported by Unity, usually relative to the project root ("Assets/Scripts/Foo.cs")
+  file: string;
+  line: number;
+  column: number;
+  code: string;
+  message: string;
+}
+
+export interface CompilationResult {
+  // notStarted: the editor didn't begin compiling within the start timeout
+  status: 'succeeded' | 'failed' | 'notStarted';
+  durationMs: number;
+  // The editor reconnected during the wait, as it does after reloading scripts
+  domainReloaded: boolean;
+  errors: CompilerDiagnostic[];
+  warnings: CompilerDiagnostic[];
+}
+
+// Filters shared by log queries (get_logs, get_log_summary)
+export interface LogFilterOptions {
+  types?: string[];
+  messageContains?: string;
+  stackTraceContains?: string;
+  timestampAfter?: string;
+  timestampBefore?: string;
+  // Regular expression variants of messageContains/stackTraceContains
+  messageMatches?: string;
+  stackTraceMatches?: string;
+  // Drop entries whose message contains this text or matches this regular expression
+  excludeMessageContains?: string;
+  excludeMessageMatches?: string;
+  // Search the on-disk log history rather than only the live buffer
+  includeHistory?: boolean;
+}
+
+export interface LogPage {
+  logs: Partial<LogEntry>[];
+  // Pass as sinceCursor to get only entries received after this page
+  nextCursor: string;
+  // More entries matched than were returned
+  hasMore: boolean;
+}
+
+// Repeated log entries collapsed into one record
+export interface LogGroup {
+  logType: string;
+  normalizedMessage: string;
+  topFrame: string;
+  count: number;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  // Message and stack trace of the most recent occurrence
+  message: string;
+  stackTrace: string;
+}
+
+export interface LogSummary {
+  totalEntries: number;
+  groupCount: number;
+  groups: LogGroup[];
 }
 
 // Scene info from Unity
@@ -46,6 +156,24 @@ export interface GameObjectsDetailsMessage {
   };
 }
 
+export interface BuildSceneEntry {
+  path: string;
+  enabled: boolean;
+  guid?: string;
+}
+
+// The editor's build scene list, answering getBuildScenes and setBuildScenes
+export interface BuildScenesMessage {
+  type: 'buildScenes';
+  data: {
+    requestId: string;
+    buildScenes: BuildSceneEntry[];
+    // Set when setBuildScenes failed; buildScenes is then the unchanged list
+    error?: string;
+    timestamp: string;
+  };
+}
+
 // Message types from Unity to Server
 export interface EditorStateMessage {
   type: 'editorState';
@@ -54,7 +182,15 @@ export interface EditorStateMessage {
 
 export interface CommandResultMessage {
   type: 'commandResult';
-  data: any;
+  data: {
+    requestId: string;
+    commandId?: string;
+    result: any;
+    logs: string[];
+    errors: string[];
+    warnings: string[];
+    executionSuccess: boolean;
+  };
 }
 
 export interface LogMessage {
@@ -71,10 +207,36 @@ export interface PongMessage {
 export interface ExecuteEditorCommandMessage {
   type: 'executeEditorCommand';
   data: {
+    requestId: string;
     code: string;
   };
 }
 
+export type PlayModeAction = 'toggle' | 'enter' | 'exit' | 'pause' | 'resume' | 'step';
+
+export interface TogglePlayModeMessage {
+  type: 'togglePlayMode';
+  data: {
+    action: PlayModeAction;
+  };
+}
+
+export interface SelectGameObjectMessage {
+  type: 'selectGameObject';
+  data: {
+    requestId: string;
+    instanceIDs?: number[];
+    paths?: string[];
+    ping?: boolean;
+    frame?: boolean;
+  };
+}
+
+export interface RefreshAssetDatabaseMessage {
+  type: 'refreshAssetDatabase';
+  data: Record<string, never>;
+}
+
 export interface HandshakeMessage {
   type: 'handshake';
   data: { message: string };
@@ -107,6 +269,21 @@ export interface GetGameObjectsInfoMessage {
   };
 }
 
+export interface GetBuildScenesMessage {
+  type: 'getBuildScenes';
+  data: {
+    requestId: string;
+  };
+}
+
+export interface SetBuildScenesMessage {
+  type: 'setBuildScenes';
+  data: {
+    requestId: string;
+    scenes: BuildSceneEntry[];
+  };
+}
+
 // Union type for all Unity messages
 export type UnityMessage = 
   | EditorStateMessage 
@@ -114,16 +291,29 @@ export type UnityMessage =
   | LogMessage
   | PongMessage
   | SceneInfoMessage
-  | GameObjectsDetailsMessage;
+  | GameObjectsDetailsMessage
+  | BuildScenesMessage;
+
+// Unity messages that answer a server request and carry its requestId
+export type UnityResponseMessage =
+  | CommandResultMessage
+  | SceneInfoMessage
+  | GameObjectsDetailsMessage
+  | BuildScenesMessage;
 
 // Union type for all Server messages
 export type ServerMessage =
   | ExecuteEditorCommandMessage
+  | TogglePlayModeMessage
+  | SelectGameObjectMessage
+  | RefreshAssetDatabaseMessage
   | HandshakeMessage
   | PingMessage
   | RequestEditorStateMessage
   | GetSceneInfoMessage
-  | GetGameObjectsInfoMessage;
+  | GetGameObjectsInfoMessage
+  | GetBuildScenesMessage
+  | SetBuildScenesMessage;
 
 // Command result handling
 export interface CommandPromise {
@@ -174,6 +364,116 @@ export interface MCPGameObjectDetail {
   components: MCPComponentInfo[];
 }
 
+// A fileID reference within the same file, or to another asset when guid is set
+export interface YamlObjectReference {
+  fileID: string;
+  guid?: string;
+  type?: number;
+}
+
+export interface YamlComponentInfo {
+  type: string;
+  fileID: string;
+  isEnabled?: boolean;
+  // The script asset of a MonoBehaviour
+  script?: YamlObjectReference;
+  properties?: Record<string, any>;
+}
+
+// A GameObject (or prefab instance) read from a scene or prefab file on disk
+export interface YamlGameObjectDetail {
+  name: string;
+  fileID: string;
+  path: string;
+  active?: boolean;
+  tag?: string;
+  layer?: number;
+  isStatic?: boolean;
+  // Local values as serialized; rotation is a quaternion
+  transform?: {
+    localPosition?: Record<string, number>;
+    localRotation?: Record<string, number>;
+    localEulerAnglesHint?: Record<string, number>;
+    localScale?: Record<string, number>;
+  };
+  components: YamlComponentInfo[];
+  children: YamlGameObjectDetail[];
+  childCount?: number;
+  prefabInstance?: {
+    sourcePrefab?: YamlObjectReference;
+    modificationCount: number;
+    removedComponentCount: number;
+    modifications?: {
+      target?: YamlObjectReference;
+      propertyPath: string;
+      value: any;
+      objectReference?: YamlObjectReference;
+    }[];
+  };
+}
+
+export interface YamlAssetInspection {
+  path: string;
+  documentCount: number;
+  gameObjectCount: number;
+  prefabInstanceCount: number;
+  rootGameObjects: YamlGameObjectDetail[];
+  // Objects outside the GameObject hierarchy (scene settings, materials, ScriptableObjects...)
+  objects: {
+    type: string;
+    classId: number;
+    fileID: string;
+    name?: string;
+    properties?: Record<string, any>;
+  }[];
+}
+
+// A GUID reference found in an asset file. Object and property details are only
+// known for Unity YAML files; other formats report the line instead.
+export interface AssetReference {
+  guid: string;
+  // Object within the referenced asset (e.g. a sub-asset or script class)
+  fileID?: string;
+  objectType?: string;
+  objectFileID?: string;
+  gameObject?: string;
+  propertyPath?: string;
+  line?: number;
+}
+
+// A member declared in a C# type, as found by the declaration scanner
+export interface CSharpMemberInfo {
+  name: string;
+  kind: 'method' | 'constructor' | 'field' | 'property' | 'event' | 'enumMember';
+  line: number;
+  // Field/property type or method return type
+  type?: string;
+  signature?: string;
+  modifiers?: string[];
+  attributes?: string[];
+  // Serialized by Unity (public or [SerializeField] fields, [field: SerializeField] properties)
+  serialized?: boolean;
+}
+
+export interface CSharpTypeInfo {
+  name: string;
+  kind: 'class' | 'struct' | 'interface' | 'enum' | 'record' | 'delegate';
+  namespace?: string;
+  // Namespace and containing types included, e.g. "Game.Player.State"
+  fullName: string;
+  containingType?: string;
+  // Relative to the Assets folder
+  file: string;
+  line: number;
+  modifiers: string[];
+  // As written, e.g. "MonoBehaviour" or "IComparable<Item>"
+  baseTypes: string[];
+  attributes?: string[];
+  // Delegates only
+  signature?: string;
+  members: CSharpMemberInfo[];
+}
+
 export enum SceneInfoDetail {
   RootObjectsOnly = 'RootObjectsOnly',
   FullHierarchy = 'FullHierarchy'
@@ -0,0 +1,554 @@
+import {
+  YamlAssetInspection,
+  YamlComponentInfo,
+  YamlGameObjectDetail,
+  YamlObjectReference
+} from './types.js';
+
+// One object of a text-serialized Unity file ("--- !u!<classId> &<fileID>")
+export interface UnityYamlDocument {
+  classId: number;
+  // fileIDs are 64-bit, so they are kept as strings
+  fileID: string;
+  // Placeholder for an object that lives in a prefab instance's source prefab
+  stripped: boolean;
+  // Serialized type name, e.g. "GameObject" or "MonoBehaviour"
+  type: string;
+  data: Record<string, any>;
+}
+
+const DOCUMENT_HEADER = /^--- !u!(-?\d+) &(-?\d+)( stripped)?/;
+
+// Serialization bookkeeping that is left out of component properties
+const BOOKKEEPING_FIELDS = new Set([
+  'm_ObjectHideFlags',
+  'm_CorrespondingSourceObject',
+  'm_PrefabInstance',
+  'm_PrefabAsset',
+  'm_PrefabInternal',
+  'm_PrefabParentObject',
+  'm_GameObject',
+  'm_Script',
+  'm_Enabled',
+  'm_EditorHideFlags',
+  'm_EditorClassIdentifier'
+]);
+
+export function parseUnityYaml(content: string): UnityYamlDocument[] {
+  const lines = content.split(/\r?\n/);
+  if (!lines[0].startsWith('%YAML') && !lines.some(line => DOCUMENT_HEADER.test(line))) {
+    throw new Error('Not a text-serialized Unity file (is Asset Serialization set to Force Text?)');
+  }
+
+  const documents: UnityYamlDocument[] = [];
+  let header: RegExpMatchArray | null = null;
+  let body: string[] = [];
+
+  const finishDocument = () => {
+    if (!header) return;
+    const parsed = new BlockParser(body).parseDocument();
+    const type = parsed && typeof parsed === 'object' ? Object.keys(parsed)[0] : undefined;
+    documents.push({
+      classId: parseInt(header[1], 10),
+      fileID: header[2],
+      stripped: !!header[3],
+      type: type ?? 'Unknown',
+      data: type && parsed[type] && typeof parsed[type] === 'object' ? parsed[type] : {}
+    });
+  };
+
+  for (const line of lines) {
+    const match = line.match(DOCUMENT_HEADER);
+    if (match) {
+      finishDocument();
+      header = match;
+      body = [];
+    } else if (header) {
+      body.push(line);
+    }
+  }
+  finishDocument();
+
+  return documents;
+}
+
+// Build a GameObject hierarchy (similar in shape to get_game_objects_info) from the
+// documents of a scene or prefab. Anything that isn't part of the hierarchy is listed in objects.
+export function inspectUnityYaml(
+  documents: UnityYamlDocument[],
+  options: { includeProperties?: boolean, maxDepth?: number } = {}
+): Omit<YamlAssetInspection, 'path'> {
+  const byId = new Map(documents.map(doc => [doc.fileID, doc]));
+  const nodes = new Map<string, YamlGameObjectDetail>();
+  // Transform fileID -> node that owns it (GameObject or prefab instance)
+  const transformOwners = new Map<string, YamlGameObjectDetail>();
+  const parentTransforms = new Map<YamlGameObjectDetail, string>();
+  const hierarchyIds = new Set<string>();
+
+  const gameObjects = documents.filter(doc => doc.type === 'GameObject' && !doc.stripped);
+  const includeProperties = options.includeProperties ?? gameObjects.length === 0;
+
+  for (const doc of gameObjects) {
+    const node: YamlGameObjectDetail = {
+      name: String(doc.data.m_Name ?? ''),
+      fileID: doc.fileID,
+      path: '',
+      active: doc.data.m_IsActive === undefined ? undefined : Number(doc.data.m_IsActive) === 1,
+      tag: doc.data.m_TagString,
+      layer: doc.data.m_Layer,
+      isStatic: Number(doc.data.m_StaticEditorFlags ?? 0) > 0,
+      components: [],
+      children: []
+    };
+    hierarchyIds.add(doc.fileID);
+
+    for (const entry of asArray(doc.data.m_Component)) {
+      // Current format is "- component: {fileID: n}"; older files key the entry by class ID
+      const ref = entry?.component ?? (entry && typeof entry === 'object' ? Object.values(entry)[0] : undefined);
+      const componentId = referenceId(ref);
+      const component = componentId ? byId.get(componentId) : undefined;
+      if (!componentId || !component) continue;
+
+      hierarchyIds.add(componentId);
+      node.components.push(describeComponent(component, includeProperties));
+
+      if (component.data.m_Father !== undefined) {
+        node.transform = {
+          localPosition: component.data.m_LocalPosition,
+          localRotation: component.data.m_LocalRotation,
+          localEulerAnglesHint: component.data.m_LocalEulerAnglesHint,
+          localScale: component.data.m_LocalScale
+        };
+        transformOwners.set(componentId, node);
+        parentTransforms.set(node, referenceId(component.data.m_Father) ?? '0');
+      }
+    }
+
+    nodes.set(doc.fileID, node);
+  }
+
+  for (const doc of documents.filter(doc => doc.type === 'PrefabInstance')) {
+    const modification = doc.data.m_Modification ?? {};
+    const modifications = asArray(modification.m_Modifications);
+    // The instance has no name of its own unless the root's m_Name was overridden
+    const nameOverride = modifications.find(mod => mod?.propertyPath === 'm_Name');
+
+    const node: YamlGameObjectDetail = {
+      name: nameOverride ? String(nameOverride.value) : '(prefab instance)',
+      fileID: doc.fileID,
+      path: '',
+      components: [],
+      children: [],
+      prefabInstance: {
+        sourcePrefab: toReference(doc.data.m_SourcePrefab),
+        modificationCount: modifications.length,
+        removedComponentCount: asArray(modification.m_RemovedComponents).length,
+        modifications: includeProperties
+          ? modifications.map(mod => ({
+              target: toReference(mod?.target),
+              propertyPath: mod?.propertyPath,
+              value: mod?.value,
+              objectReference: toReference(mod?.objectReference)
+            }))
+          : undefined
+      }
+    };
+    hierarchyIds.add(doc.fileID);
+    nodes.set(doc.fileID, node);
+    parentTransforms.set(node, referenceId(modification.m_TransformParent) ?? '0');
+  }
+
+  // Stripped objects stand in for objects of a prefab instance, so children added
+  // under them (and references to them in m_Children) belong to the instance
+  for (const doc of documents.filter(doc => doc.stripped)) {
+    hierarchyIds.add(doc.fileID);
+    const owner = nodes.get(referenceId(doc.data.m_PrefabInstance) ?? '');
+    if (owner && doc.type.endsWith('Transform')) {
+      transformOwners.set(doc.fileID, owner);
+    }
+  }
+
+  // Child order comes from the parent transform's m_Children
+  const childOrder = new Map<YamlGameObjectDetail, Map<string, number>>();
+  for (const [transformId, owner] of transformOwners) {
+    const transform = byId.get(transformId);
+    if (!transform || transform.stripped) continue;
+    childOrder.set(owner, new Map(
+      asArray(transform.data.m_Children).map((child, index) => [referenceId(child) ?? '', index])
+    ));
+  }
+
+  const roots: YamlGameObjectDetail[] = [];
+  for (const [node, parentId] of parentTransforms) {
+    const parent = parentId !== '0' ? transformOwners.get(parentId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Scenes from Unity 2022+ list their roots in a SceneRoots object; older ones use m_RootOrder
+  const sceneRoots = documents.find(doc => doc.type === 'SceneRoots');
+  const rootOrder = new Map(asArray(sceneRoots?.data.m_Roots).map((ref, index) => [referenceId(ref) ?? '', index]));
+  const transformIdsOf = (node: YamlGameObjectDetail) =>
+    [...transformOwners].filter(([, owner]) => owner === node).map(([id]) => id);
+  const orderIn = (order: Map<string, number>, node: YamlGameObjectDetail) =>
+    Math.min(...transformIdsOf(node).map(id => order.get(id) ?? Number.MAX_SAFE_INTEGER), Number.MAX_SAFE_INTEGER);
+  const legacyRootOrder = (node: YamlGameObjectDetail) => {
+    const transformId = transformIdsOf(node).find(id => !byId.get(id)?.stripped);
+    return Number(byId.get(transformId ?? '')?.data.m_RootOrder ?? Number.MAX_SAFE_INTEGER);
+  };
+
+  roots.sort((a, b) => rootOrder.size > 0
+    ? orderIn(rootOrder, a) - orderIn(rootOrder, b)
+    : legacyRootOrder(a) - legacyRootOrder(b));
+
+  const finish = (node: YamlGameObjectDetail, parentPath: string, depth: number) => {
+    node.path = parentPath ? `${parentPath}/${node.name}` : node.name;
+    const order = childOrder.get(node);
+    if (order) {
+      node.children.sort((a, b) => orderIn(order, a) - orderIn(order, b));
+    }
+    node.childCount = node.children.length;
+    for (const child of node.children) {
+      finish(child, node.path, depth + 1);
+    }
+    if (options.maxDepth !== undefined && options.maxDepth >= 0 && depth >= options.maxDepth) {
+      node.children = [];
+    }
+  };
+  roots.forEach(root => finish(root, '', 0));
+
+  const objects = documents
+    .filter(doc => !hierarchyIds.has(doc.fileID) && doc.type !== 'SceneRoots')
+    .map(doc => ({
+      type: doc.type,
+      classId: doc.classId,
+      fileID: doc.fileID,
+      name: doc.data.m_Name,
+      properties: includeProperties ? stripBookkeeping(doc.data) : undefined
+    }));
+
+  return {
+    documentCount: documents.length,
+    gameObjectCount: gameObjects.length,
+    prefabInstanceCount: [...nodes.values()].filter(node => node.prefabInstance).length,
+    rootGameObjects: roots,
+    objects
+  };
+}
+
+function describeComponent(component: UnityYamlDocument, includeProperties: boolean): YamlComponentInfo {
+  return {
+    type: component.type,
+    fileID: component.fileID,
+    isEnabled: component.data.m_Enabled === undefined ? undefined : Number(component.data.m_Enabled) === 1,
+    script: component.data.m_Script ? toReference(component.data.m_Script) : undefined,
+    properties: includeProperties ? stripBookkeeping(component.data) : undefined
+  };
+}
+
+function stripBookkeeping(data: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(data).filter(([key]) => !BOOKKEEPING_FIELDS.has(key)));
+}
+
+function asArray(value: any): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function referenceId(ref: any): string | undefined {
+  return ref && typeof ref === 'object' && ref.fileID !== undefined ? String(ref.fileID) : undefined;
+}
+
+function toReference(ref: any): YamlObjectReference | undefined {
+  if (!ref || typeof ref !== 'object' || ref.fileID === undefined) return undefined;
+  return {
+    fileID: String(ref.fileID),
+    guid: ref.guid,
+    type: ref.type
+  };
+}
+
+// Block-style YAML as written by Unity: indentation-based mappings, sequences whose
+// dashes sit at their key's indentation, and flow collections for small values
+class BlockParser {
+  private pos = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  public parseDocument(): any {
+    const first = this.peek();
+    return first ? this.parseNode(first.indent) : null;
+  }
+
+  private peek(): { indent: number, text: string } | null {
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      const text = line.trim();
+      if (text && !text.startsWith('#')) {
+        return { indent: line.length - line.trimStart().length, text };
+      }
+      this.pos++;
+    }
+    return null;
+  }
+
+  private parseNode(indent: number): any {
+    const line = this.peek();
+    return line && isSequenceItem(line.text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  private parseMapping(indent: number): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (let line = this.peek(); line && line.indent === indent && !isSequenceItem(line.text); line = this.peek()) {
+      this.pos++;
+      const entry = splitKey(line.text);
+      if (!entry) continue;
+
+      result[entry.key] = this.parseValue(entry.rest, indent);
+    }
+
+    return result;
+  }
+
+  private parseSequence(indent: number): any[] {
+    const items: any[] = [];
+
+    for (let line = this.peek(); line && line.indent === indent && isSequenceItem(line.text); line = this.peek()) {
+      const rest = line.text === '-' ? '' : line.text.slice(2).trim();
+
+      if (!rest) {
+        this.pos++;
+        const next = this.peek();
+        items.push(next && next.indent > indent ? this.parseNode(next.indent) : null);
+      } else if (!/^[{\['"]/.test(rest) && splitKey(rest)) {
+        // "- key: value" starts a mapping indented past the dash
+        const itemIndent = indent + line.text.indexOf(rest);
+        this.lines[this.pos] = ' '.repeat(itemIndent) + rest;
+        items.push(this.parseMapping(itemIndent));
+      } else {
+        this.pos++;
+        items.push(this.parseInline(rest, indent));
+      }
+    }
+
+    return items;
+  }
+
+  private parseValue(rest: string, indent: number): any {
+    if (rest) {
+      return this.parseInline(rest, indent);
+    }
+
+    const next = this.peek();
+    if (next && next.indent > indent) {
+      return this.parseNode(next.indent);
+    }
+    if (next && next.indent === indent && isSequenceItem(next.text)) {
+      return this.parseSequence(indent);
+    }
+    return '';
+  }
+
+  // A value on the key's line, plus any continuation lines (long strings and flow collections wrap)
+  private parseInline(text: string, indent: number): any {
+    let value = text;
+
+    for (let next = this.peek(); next && next.indent > indent; next = this.peek()) {
+      if (/^[{\[]/.test(value) && isFlowComplete(value)) break;
+      value += ' ' + next.text;
+      this.pos++;
+    }
+
+    return new FlowParser(value).parse();
+  }
+}
+
+// Flow collections ({a: 1, b: [x, y]}), quoted strings and plain scalars
+class FlowParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  public parse(): any {
+    return this.parseValue('');
+  }
+
+  private parseValue(terminators: string): any {
+    this.skipSpaces();
+    const char = this.text[this.pos];
+
+    if (char === '{') return this.parseMap();
+    if (char === '[') return this.parseList();
+    if (char === '"' || char === "'") return this.parseQuoted();
+
+    const start = this.pos;
+    while (this.pos < this.text.length && !terminators.includes(this.text[this.pos])) {
+      this.pos++;
+    }
+    return convertScalar(this.text.slice(start, this.pos).trim());
+  }
+
+  private parseMap(): Record<string, any> {
+    const result: Record<string, any> = {};
+    this.pos++;
+
+    while (this.pos < this.text.length) {
+      this.skipSpaces();
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        break;
+      }
+
+      const key = this.text[this.pos] === '"' || this.text[this.pos] === "'"
+        ? String(this.parseQuoted())
+        : this.readUntil(':,}').trim();
+      if (this.text[this.pos] === ':') this.pos++;
+
+      result[key] = this.parseValue(',}');
+      this.skipSpaces();
+      if (this.text[this.pos] === ',') this.pos++;
+    }
+
+    return result;
+  }
+
+  private parseList(): any[] {
+    const result: any[] = [];
+    this.pos++;
+
+    while (this.pos < this.text.length) {
+      this.skipSpaces();
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        break;
+      }
+
+      result.push(this.parseValue(',]'));
+      this.skipSpaces();
+      if (this.text[this.pos] === ',') this.pos++;
+    }
+
+    return result;
+  }
+
+  private parseQuoted(): string {
+    const quote = this.text[this.pos++];
+    let result = '';
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === quote) {
+        // '' is an escaped quote inside single-quoted strings
+        if (quote === "'" && this.text[this.pos] === "'") {
+          result += "'";
+          this.pos++;
+          continue;
+        }
+        break;
+      }
+      if (char === '\\' && quote === '"') {
+        result += unescapeDoubleQuoted(this.text, this.pos);
+        this.pos += escapeLength(this.text, this.pos);
+        continue;
+      }
+      result += char;
+    }
+
+    return result;
+  }
+
+  private readUntil(terminators: string): string {
+    const start = this.pos;
+    while (this.pos < this.text.length && !terminators.includes(this.text[this.pos])) {
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos);
+  }
+
+  private skipSpaces(): void {
+    while (this.text[this.pos] === ' ') this.pos++;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+// "key: value" or "key:" - Unity keys are plain or quoted, never flow collections
+function splitKey(text: string): { key: string, rest: string } | null {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    const end = text.indexOf(text[0], 1);
+    if (end > 0 && text[end + 1] === ':') {
+      return { key: text.slice(1, end), rest: text.slice(end + 2).trim() };
+    }
+    return null;
+  }
+
+  const separator = text.indexOf(': ');
+  if (separator > 0) {
+    return { key: text.slice(0, separator), rest: text.slice(separator + 2).trim() };
+  }
+  if (text.endsWith(':')) {
+    return { key: text.slice(0, -1), rest: '' };
+  }
+  return null;
+}
+
+// Whether brackets outside quoted strings are balanced
+function isFlowComplete(text: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+    }
+  }
+
+  return depth <= 0 && quote === null;
+}
+
+function convertScalar(text: string): any {
+  // Integers are converted only when that round-trips, so 64-bit fileIDs and names like "007" stay strings
+  if (/^-?\d+$/.test(text)) {
+    const value = Number(text);
+    return Number.isSafeInteger(value) && String(value) === text ? value : text;
+  }
+  if (/^-?(\d+\.\d*|\.\d+|\d+)(e[-+]?\d+)?$/i.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' '
+};
+
+function unescapeDoubleQuoted(text: string, pos: number): string {
+  const char = text[pos];
+  if (char === 'u' || char === 'x' || char === 'U') {
+    const length = escapeLength(text, pos) - 1;
+    return String.fromCodePoint(parseInt(text.slice(pos + 1, pos + 1 + length), 16) || 0xfffd);
+  }
+  return SIMPLE_ESCAPES[char] ?? char;
+}
+
+function escapeLength(text: string, pos: number): number {
+  switch (text[pos]) {
+    case 'x': return 3;
+    case 'u': return 5;
+    case 'U': return 9;
+    default: return 1;
+  }
+}
@@ -0,0 +1,177 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getGuidIndex } from './guidIndex.js';
+import { canReferenceAssets, extractGuidReferences, YAML_ASSET_EXTENSIONS } from './assetReferences.js';
+import { readBuildScenes } from './projectSettings.js';
+
+export interface UnusedAssetScan {
+  roots: {
+    buildScenes: string[];
+    resourcesFolders: string[];
+    addressableEntries: number;
+    projectSettingsFiles: number;
+  };
+  reachableCount: number;
+  // Paths relative to the Assets folder
+  unused: { path: string, size: number }[];
+  warnings: string[];
+}
+
+// Code, plugins and special folders are used without a GUID reference, so they are never reported
+const ALWAYS_USED_EXTENSIONS = new Set([
+  '.cs', '.asmdef', '.asmref', '.rsp', '.dll', '.so', '.a', '.aar', '.jar', '.bundle', '.jslib', '.jspre',
+  '.cginc', '.hlsl', '.glslinc'
+]);
+const ALWAYS_USED_FOLDERS = new Set(['Editor', 'Editor Default Resources', 'Gizmos', 'StreamingAssets']);
+
+// Walk GUID references from everything that ends up in a build (enabled build scenes,
+// Resources folders, Addressables group entries and ProjectSettings) and report the assets
+// under scopePath that nothing reaches. Reads files only, so it works without the Editor.
+export async function findUnusedAssets(
+  assetsPath: string,
+  projectRootPath: string,
+  scopePath: string,
+  includeDisabledScenes: boolean = false
+): Promise<UnusedAssetScan> {
+  // One snapshot for the whole walk: lookups through the index would rescan it as it goes
+  const entries = await getGuidIndex(assetsPath).entries();
+  const pathsByGuid = new Map(entries.map(entry => [entry.guid, entry.path]));
+  const folders = new Set(entries.filter(entry => entry.isFolder).map(entry => entry.path));
+  const known = new Set(entries.map(entry => entry.path));
+
+  const result: UnusedAssetScan = {
+    roots: { buildScenes: [], resourcesFolders: [], addressableEntries: 0, projectSettingsFiles: 0 },
+    reachableCount: 0,
+    unused: [],
+    warnings: []
+  };
+  const unscannable: string[] = [];
+
+  const reachable = new Set<string>();
+  const queue: string[] = [];
+  const reach = (assetPath: string | undefined) => {
+    if (assetPath === undefined || reachable.has(assetPath) || !known.has(assetPath)) return;
+    reachable.add(assetPath);
+    queue.push(assetPath);
+  };
+  const reachGuid = (guid: string) => reach(pathsByGuid.get(guid));
+
+  // ProjectSettings reference the render pipeline, input actions, Addressables settings etc.
+  const settingsPath = path.join(projectRootPath, 'ProjectSettings');
+  let settingsFiles: string[] = [];
+  try {
+    settingsFiles = (await fs.readdir(settingsPath)).filter(file => file.endsWith('.asset'));
+  } catch {
+    result.warnings.push(`No ProjectSettings folder found at ${settingsPath}`);
+  }
+  for (const file of settingsFiles) {
+    const content = await readText(path.join(settingsPath, file));
+    if (content === undefined) {
+      unscannable.push(`ProjectSettings/${file}`);
+      continue;
+    }
+    result.roots.projectSettingsFiles++;
+
+    if (file === 'EditorBuildSettings.asset') {
+      for (const scene of readBuildScenes(content)) {
+        if (!scene.enabled && !includeDisabledScenes) continue;
+        const scenePath = scene.guid ? pathsByGuid.get(scene.guid) : scene.path.replace(/^Assets\//, '');
+        if (scenePath) {
+          result.roots.buildScenes.push(scenePath);
+          reach(scenePath);
+        }
+      }
+    }
+
+    for (const reference of extractGuidReferences(content, file)) {
+      // Build scenes were handled above, respecting their enabled flag
+      if (reference.propertyPath?.startsWith('m_Scenes')) continue;
+      reachGuid(reference.guid);
+    }
+  }
+
+  // Everything in a Resources folder can be loaded by name at runtime
+  for (const folder of folders) {
+    if (folder.split('/').pop() === 'Resources') {
+      result.roots.resourcesFolders.push(folder);
+      reach(folder);
+    }
+  }
+
+  // Addressables group entries store the GUID as a plain string rather than a reference
+  for (const entry of entries) {
+    if (!/(^|\/)AddressableAssetsData\/AssetGroups\/[^/]+\.asset$/.test(entry.path)) continue;
+    reach(entry.path);
+    const content = await readText(path.join(assetsPath, entry.path));
+    for (const match of content?.matchAll(/m_GUID:\s*([0-9a-fA-F]{32})/g) ?? []) {
+      result.roots.addressableEntries++;
+      reachGuid(match[1].toLowerCase());
+    }
+  }
+
+  while (queue.length > 0) {
+    const assetPath = queue.shift()!;
+
+    if (folders.has(assetPath)) {
+      // A reachable folder (Resources, an Addressables folder entry) includes its contents
+      for (const entry of entries) {
+        if (entry.path.startsWith(assetPath + '/')) reach(entry.path);
+      }
+      continue;
+    }
+
+    for (const file of [assetPath, `${assetPath}.meta`]) {
+      if (!canReferenceAssets(file)) continue;
+      const content = await readText(path.join(assetsPath, file));
+      if (content === undefined) {
+        if (YAML_ASSET_EXTENSIONS.has(path.extname(file).toLowerCase())) unscannable.push(file);
+        continue;
+      }
+      for (const reference of extractGuidReferences(content, file)) {
+        reachGuid(reference.guid);
+      }
+    }
+  }
+  result.reachableCount = reachable.size;
+
+  if (result.roots.buildScenes.length === 0) {
+    result.warnings.push('No build scenes found in ProjectSettings/EditorBuildSettings.asset - only Resources, Addressables and ProjectSettings were used as roots');
+  }
+  if (unscannable.length > 0) {
+    result.warnings.push(
+      `${unscannable.length} reachable files are binary serialized and their references could not be followed, so some assets may be reported wrongly (set Asset Serialization to Force Text): ` +
+      unscannable.slice(0, 10).join(', ') + (unscannable.length > 10 ? ', ...' : '')
+    );
+  }
+
+  const scope = scopePath.split(path.sep).join('/').replace(/^\/+|\/+$/g, '');
+  for (const entry of entries) {
+    if (entry.isFolder || reachable.has(entry.path) || isAlwaysUsed(entry.path)) continue;
+    if (scope && entry.path !== scope && !entry.path.startsWith(scope + '/')) continue;
+
+    try {
+      const stats = await fs.stat(path.join(assetsPath, entry.path));
+      result.unused.push({ path: entry.path, size: stats.size });
+    } catch {
+      // .meta file without its asset
+    }
+  }
+  result.unused.sort((a, b) => b.size - a.size || a.path.localeCompare(b.path));
+
+  return result;
+}
+
+function isAlwaysUsed(assetPath: string): boolean {
+  if (ALWAYS_USED_EXTENSIONS.has(path.extname(assetPath).toLowerCase())) return true;
+  return assetPath.split('/').slice(0, -1).some(folder => ALWAYS_USED_FOLDERS.has(folder));
+}
+
+// File content as text, or undefined if it can't be read or is binary
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    const buffer = await fs.readFile(filePath);
+    return buffer.includes(0) ? undefined : buffer.toString('utf-8');
+  } catch {
+    return undefined;
+  }
+}
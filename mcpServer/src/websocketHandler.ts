@@ -1,36 +1,86 @@
 import { WebSocketServer, WebSocket } from 'ws';
+import { EventEmitter } from 'events';
+import path from 'path';
 import { 
   UnityMessage, 
+  UnityResponseMessage, 
   UnityEditorState, 
   LogEntry,
-  CommandPromise 
+  LogFilterOptions,
+  LogSummary,
+  LogPage,
+  CompilationResult,
+  CommandPromise,
+  UnityInstanceInfo,
+  PlayModeAction,
+  BuildScenesMessage,
+  BuildSceneEntry
 } from './types.js';
+import { CommandQueue } from './commandQueue.js';
+import { LogStore, LogStoreOptions, DEFAULT_LOG_STORE_OPTIONS } from './logStore.js';
+import { summarizeLogs } from './logSummary.js';
+import { parseStackTrace } from './stackTrace.js';
+import { parseCompilerDiagnostics } from './compilerDiagnostics.js';
 
-export class WebSocketHandler {
+export interface WebSocketHandlerOptions {
+  // How many execute_editor_command calls may be in flight at once
+  commandConcurrency?: number;
+  // How many further calls may wait for a free slot before new ones are rejected
+  maxQueuedCommands?: number;
+  // Persist Unity logs to disk; when omitted logs are only kept in memory
+  logStore?: LogStoreSettings;
+}
+
+export interface LogStoreSettings extends Partial<LogStoreOptions> {
+  // Root folder for log stores, one subfolder per project. Defaults to each
+  // project's own Library/UnityMCP/Logs folder
+  path?: string;
+  // Project root used for editors that don't report their project path
+  fallbackProjectRoot?: string;
+}
+
+// A single connected (or previously connected) Unity Editor
+interface UnityInstance {
+  // Registry key - the project path/name once known, a provisional id until then
+  id: string;
+  identified: boolean;
+  socket: WebSocket | null;
+  editorState: UnityEditorState;
+  // Incremented on every editorState received, so waiters can tell fresh state from stale
+  stateVersion: number;
+  logBuffer: LogEntry[];
+  // On-disk log history, created once the instance is identified
+  logStore: LogStore | null;
+  // Sequence number of the newest log entry received from this editor
+  lastSequence: number;
+  lastHeartbeat: number;
+  connectionEstablished: boolean;
+  connectedAt: string;
+}
+
+// Emits 'editorState' (state, instanceId) and 'log' (logEntry, instanceId) as Unity pushes them
+export class WebSocketHandler extends EventEmitter {
   private wsServer!: WebSocketServer; // Add definite assignment assertion
   private _port: number; // Make this a private field, not readonly
-  private unityConnection: WebSocket | null = null;
-  private editorState: UnityEditorState = {
-    activeGameObjects: [],
-    selectedObjects: [],
-    playModeState: 'Stopped',
-    sceneHierarchy: {}
-  };
+  private instances: Map<string, UnityInstance> = new Map();
+  private nextConnectionNumber: number = 1;
+  // Seeded from the clock so sequence numbers keep increasing across server
+  // restarts without first reading back the persisted log history
+  private lastLogSequence: number = Date.now() * 1000;
   
-  private logBuffer: LogEntry[] = [];
   private readonly maxLogBufferSize = 1000;
-  private commandResultPromise: CommandPromise | null = null;
-  private commandStartTime: number | null = null;
-  private lastHeartbeat: number = 0;
-  private connectionEstablished: boolean = false;
-  private pendingRequests: Record<string, {
-    resolve: (data?: any) => void;
-    reject: (reason?: any) => void;
+  private commandQueue: CommandQueue;
+  private logStoreSettings?: LogStoreSettings;
+  private pendingRequests: Record<string, CommandPromise & {
     type: string;
+    socket: WebSocket | null;
   }> = {};
 
-  constructor(port: number = 5010) {
+  constructor(port: number = 5010, options: WebSocketHandlerOptions = {}) {
+    super();
     this._port = port; // Store in private field
+    this.commandQueue = new CommandQueue(options.commandConcurrency ?? 1, options.maxQueuedCommands ?? 20);
+    this.logStoreSettings = options.logStore;
     this.initializeWebSocketServer(port);
   }
 
@@ -79,105 +129,154 @@ export class WebSocketHandler {
   }
 
   private handleNewConnection(ws: WebSocket): void {
-    console.error('[Unity MCP] Unity Editor connected');
-    this.unityConnection = ws;
-    this.connectionEstablished = true;
-    this.lastHeartbeat = Date.now();
+    // Register under a provisional id until the editor tells us which project it is
+    const instance: UnityInstance = {
+      id: `connection-${this.nextConnectionNumber++}`,
+      identified: false,
+      socket: ws,
+      editorState: this.createEmptyEditorState(),
+      stateVersion: 0,
+      logBuffer: [],
+      logStore: null,
+      lastSequence: 0,
+      lastHeartbeat: Date.now(),
+      connectionEstablished: true,
+      connectedAt: new Date().toISOString()
+    };
+    this.instances.set(instance.id, instance);
+    console.error(`[Unity MCP] Unity Editor connected (${instance.id})`);
     
     // Send a simple handshake message to verify connection
-    this.sendHandshake();
+    this.sendHandshake(ws);
     
-    ws.on('message', (data) => this.handleIncomingMessage(data));
+    // Ask for the editor state straight away so the connection can be identified
+    this.sendToSocket(ws, { type: 'requestEditorState', data: {} });
+
+    ws.on('message', (data) => this.handleIncomingMessage(ws, data));
     
     ws.on('error', (error) => {
       console.error('[Unity MCP] WebSocket error:', error);
-      this.connectionEstablished = false;
+      const current = this.getInstanceBySocket(ws);
+      if (current) {
+        current.connectionEstablished = false;
+      }
     });
     
-    ws.on('close', () => {
-      console.error('[Unity MCP] Unity Editor disconnected');
-      this.unityConnection = null;
-      this.connectionEstablished = false;
-    });
+    ws.on('close', () => this.handleConnectionClosed(ws));
     
     // Keep the automatic heartbeat for internal connection validation
     const pingInterval = setInterval(() => {
       if (ws.readyState === WebSocket.OPEN) {
-        this.sendPing();
+        this.sendPing(ws);
       } else {
         clearInterval(pingInterval);
       }
     }, 30000); // Send heartbeat every 30 seconds
   }
 
-  private handleIncomingMessage(data: any): void {
+  private handleConnectionClosed(ws: WebSocket): void {
+    const instance = this.getInstanceBySocket(ws);
+    if (!instance) return;
+
+    console.error(`[Unity MCP] Unity Editor disconnected (${instance.id})`);
+    instance.socket = null;
+    instance.connectionEstablished = false;
+
+    this.rejectPendingRequests(ws);
+
+    // Identified instances stay registered so their logs and state survive a
+    // domain reload; unidentified connections have nothing worth keeping
+    if (!instance.identified) {
+      this.instances.delete(instance.id);
+    }
+  }
+
+  // Fail anything still waiting on this socket rather than letting it time out
+  private rejectPendingRequests(ws: WebSocket): void {
+    for (const pending of Object.values(this.pendingRequests)) {
+      if (pending.socket === ws) {
+        pending.reject(new Error('Unity Editor is not connected'));
+      }
+    }
+  }
+
+  private handleIncomingMessage(ws: WebSocket, data: any): void {
     try {
+      const instance = this.getInstanceBySocket(ws);
+      if (!instance) return;
+
       // Update heartbeat on any message
-      this.lastHeartbeat = Date.now();
+      instance.lastHeartbeat = Date.now();
       
       const message = JSON.parse(data.toString());
-      console.error('[Unity MCP] Received message type:', message.type);
+      console.error(`[Unity MCP] Received message type: ${message.type} (${instance.id})`);
       
-      this.handleUnityMessage(message);
+      this.handleUnityMessage(instance, message);
     } catch (error) {
       console.error('[Unity MCP] Error handling message:', error);
     }
   }
 
-  private sendHandshake() {
-    this.sendToUnity({
+  private sendHandshake(ws: WebSocket) {
+    this.sendToSocket(ws, {
       type: 'handshake',
       data: { message: 'MCP Server Connected' }
     });
   }
   
   // Renamed from sendHeartbeat to sendPing for consistency with protocol
-  private sendPing() {
-    this.sendToUnity({
+  private sendPing(ws: WebSocket) {
+    this.sendToSocket(ws, {
       type: "ping",
       data: { timestamp: Date.now() }
     });
   }
 
-  // Helper method to safely send messages to Unity
-  private sendToUnity(message: any): void {
+  // Helper method to safely send messages to a Unity instance
+  private sendToUnity(instance: UnityInstance, message: any): void {
+    if (instance.socket) {
+      this.sendToSocket(instance.socket, message);
+    }
+  }
+
+  private sendToSocket(ws: WebSocket, message: any): void {
     try {
-      if (this.unityConnection && this.unityConnection.readyState === WebSocket.OPEN) {
-        this.unityConnection.send(JSON.stringify(message));
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
       }
     } catch (error) {
       console.error(`[Unity MCP] Error sending message: ${error}`);
-      this.connectionEstablished = false;
+      const instance = this.getInstanceBySocket(ws);
+      if (instance) {
+        instance.connectionEstablished = false;
+      }
     }
   }
 
-  private handleUnityMessage(message: UnityMessage) {
+  private handleUnityMessage(instance: UnityInstance, message: UnityMessage) {
     switch (message.type) {
       case 'editorState':
-        this.editorState = message.data;
+        instance.editorState = message.data;
+        instance.stateVersion++;
+        this.emit('editorState', message.data, this.identifyInstance(instance).id);
         break;
       
-      case 'commandResult':
-        // Resolve the pending command result promise
-        if (this.commandResultPromise) {
-          this.commandResultPromise.resolve(message.data);
-          this.commandResultPromise = null;
-          this.commandStartTime = null;
-        }
-        break;
-
       case 'log':
-        this.addLogEntry(message.data);
+        message.data.sequence = this.lastLogSequence = Math.max(this.lastLogSequence + 1, Date.now() * 1000);
+        this.addLogEntry(instance, message.data);
+        this.emit('log', message.data, instance.id);
         break;
         
       case 'pong':
         // Update heartbeat reception timestamp when receiving pong
-        this.lastHeartbeat = Date.now();
-        this.connectionEstablished = true;
+        instance.lastHeartbeat = Date.now();
+        instance.connectionEstablished = true;
         break;
 
+      case 'commandResult':
       case 'sceneInfo':
       case 'gameObjectsDetails':
+      case 'buildScenes':
         this.handleRequestResponse(message);
         break;
       
@@ -187,7 +286,7 @@ export class WebSocketHandler {
     }
   }
 
-  private handleRequestResponse(message: UnityMessage): void {
+  private handleRequestResponse(message: UnityResponseMessage): void {
     const requestId = message.data?.requestId;
     if (requestId && this.pendingRequests[requestId]) {
       // Fix the type issue by checking the property exists first
@@ -198,160 +297,618 @@ export class WebSocketHandler {
     }
   }
 
-  private addLogEntry(logEntry: LogEntry) {
-    // Add to buffer, removing oldest if at capacity
-    this.logBuffer.push(logEntry);
-    if (this.logBuffer.length > this.maxLogBufferSize) {
-      this.logBuffer.shift();
+  // Re-key a connection by its project once the editor state tells us which one it is,
+  // returning the registry entry that now owns the connection
+  private identifyInstance(instance: UnityInstance): UnityInstance {
+    const key = this.getInstanceKey(instance.editorState);
+    if (!key || key === instance.id) return instance;
+
+    const existing = this.instances.get(key);
+    if (existing && existing !== instance) {
+      // Same project reconnecting (e.g. after a domain reload) - adopt the new
+      // socket into the existing entry so its log history is kept
+      if (existing.socket && existing.socket !== instance.socket) {
+        console.error(`[Unity MCP] Replacing previous connection for ${key}`);
+        // Its close event won't find it once the entry holds the new socket
+        this.rejectPendingRequests(existing.socket);
+        try {
+          existing.socket.close();
+        } catch (error) {
+          console.error('[Unity MCP] Error closing previous connection:', error);
+        }
+      }
+      existing.socket = instance.socket;
+      existing.editorState = instance.editorState;
+      existing.stateVersion++;
+      existing.lastHeartbeat = instance.lastHeartbeat;
+      existing.connectionEstablished = instance.connectionEstablished;
+      existing.connectedAt = instance.connectedAt;
+      for (const logEntry of instance.logBuffer) {
+        this.addLogEntry(existing, logEntry);
+      }
+      this.instances.delete(instance.id);
+      return existing;
+    }
+
+    console.error(`[Unity MCP] Identified ${instance.id} as ${key}`);
+    this.instances.delete(instance.id);
+    instance.id = key;
+    instance.identified = true;
+    this.instances.set(key, instance);
+
+    // Persist everything received so far, then keep appending as logs arrive
+    instance.logStore = this.createLogStore(instance);
+    for (const logEntry of instance.logBuffer) {
+      instance.logStore?.append(logEntry);
     }
+    return instance;
   }
 
-  public async executeEditorCommand(code: string, timeoutMs: number = 5000): Promise<any> {
-    if (!this.isConnected()) {
+  private createLogStore(instance: UnityInstance): LogStore | null {
+    const directory = this.getLogStoreDirectory(instance);
+    if (!directory) return null;
+
+    console.error(`[Unity MCP] Persisting logs for ${instance.id} to ${directory}`);
+    return this.openLogStore(directory);
+  }
+
+  private getLogStoreDirectory(instance: UnityInstance): string | undefined {
+    if (!this.logStoreSettings) return undefined;
+
+    const { path: rootPath, fallbackProjectRoot } = this.logStoreSettings;
+    const state = instance.editorState;
+    const projectPath = state.projectPath && state.projectPath !== 'Unknown' ? state.projectPath : undefined;
+
+    if (rootPath) {
+      const projectName = state.projectName && state.projectName !== 'Unknown'
+        ? state.projectName
+        : path.basename(instance.id);
+      return path.join(rootPath, projectName.replace(/[^\w.-]+/g, '_'));
+    }
+    if (projectPath || fallbackProjectRoot) {
+      return path.join((projectPath || fallbackProjectRoot)!, 'Library', 'UnityMCP', 'Logs');
+    }
+    return undefined;
+  }
+
+  private openLogStore(directory: string): LogStore {
+    const { path: rootPath, fallbackProjectRoot, ...rotation } = this.logStoreSettings ?? {};
+    return new LogStore(directory, { ...DEFAULT_LOG_STORE_OPTIONS, ...rotation });
+  }
+
+  private getInstanceKey(state: UnityEditorState): string | undefined {
+    if (state.projectPath && state.projectPath !== 'Unknown') {
+      return path.normalize(state.projectPath);
+    }
+    if (state.projectName && state.projectName !== 'Unknown') {
+      return state.projectName;
+    }
+    return undefined;
+  }
+
+  private getInstanceBySocket(ws: WebSocket): UnityInstance | undefined {
+    for (const instance of this.instances.values()) {
+      if (instance.socket === ws) return instance;
+    }
+    return undefined;
+  }
+
+  // Look up an instance by registry key, project name or project folder name
+  private findInstance(instance: string): UnityInstance | undefined {
+    const exact = this.instances.get(instance) ?? this.instances.get(path.normalize(instance));
+    if (exact) return exact;
+
+    const wanted = instance.toLowerCase();
+    const matches = [...this.instances.values()].filter(candidate => {
+      const { projectName, projectPath } = candidate.editorState;
+      return projectName?.toLowerCase() === wanted ||
+        (projectPath !== undefined && path.basename(projectPath).toLowerCase() === wanted);
+    });
+
+    if (matches.length > 1) {
+      throw new Error(
+        `Instance "${instance}" is ambiguous, it matches: ${matches.map(m => m.id).join(', ')}`
+      );
+    }
+    return matches[0];
+  }
+
+  // Resolve the instance a request should be routed to, defaulting to the only connected editor
+  private resolveInstance(instance?: string): UnityInstance {
+    if (instance) {
+      const found = this.findInstance(instance);
+      if (!found) {
+        throw new Error(`Unknown Unity instance "${instance}". Use list_unity_instances to see connected editors.`);
+      }
+      if (!this.isInstanceConnected(found)) {
+        throw new Error(`Unity Editor instance "${found.id}" is not connected`);
+      }
+      return found;
+    }
+
+    const connected = [...this.instances.values()].filter(candidate => this.isInstanceConnected(candidate));
+    if (connected.length === 0) {
       throw new Error('Unity Editor is not connected');
     }
+    if (connected.length > 1) {
+      throw new Error(
+        `Multiple Unity Editor instances are connected (${connected.map(c => c.id).join(', ')}). ` +
+        'Specify the instance argument; use list_unity_instances to see them.'
+      );
+    }
+    return connected[0];
+  }
 
-    try {
-      // Start timing the command execution
-      this.commandStartTime = Date.now();
-      
-      // Send the command to Unity
-      this.sendToUnity({
-        type: 'executeEditorCommand',
-        data: { code }
-      });
+  // Logs can be read without a connected editor: from an editor that has disconnected,
+  // or else from the history persisted for the server's own project in earlier sessions
+  private async resolveLogInstance(instance?: string): Promise<UnityInstance> {
+    if (this.isConnected(instance)) {
+      return this.resolveInstance(instance);
+    }
 
-      // Wait for result with timeout
-      return await Promise.race([
-        new Promise((resolve, reject) => {
-          this.commandResultPromise = { resolve, reject };
-        }),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error(
-            `Command execution timed out after ${timeoutMs/1000} seconds`
-          )), timeoutMs)
-        )
-      ]);
-    } catch (error) {
-      // Reset command promise state if there's an error
-      this.commandResultPromise = null;
-      this.commandStartTime = null;
-      throw error;
+    if (instance) {
+      const found = this.findInstance(instance);
+      if (found) return found;
+    } else {
+      const known = [...this.instances.values()].filter(candidate => candidate.identified);
+      if (known.length > 1) {
+        throw new Error(
+          `No Unity Editor is connected and logs are kept for several (${known.map(k => k.id).join(', ')}). ` +
+          'Specify the instance argument; use list_unity_instances to see them.'
+        );
+      }
+      if (known.length === 1) return known[0];
+    }
+
+    const offline = await this.openOfflineLogInstance(instance);
+    if (!offline) {
+      throw new Error(instance
+        ? `Unknown Unity instance "${instance}". Use list_unity_instances to see connected editors.`
+        : 'Unity Editor is not connected and no log history is stored for this project');
+    }
+    return offline;
+  }
+
+  // A stand-in instance reading the server project's log store, which an editor wrote before this server started
+  private async openOfflineLogInstance(instance?: string): Promise<UnityInstance | undefined> {
+    const projectRoot = this.logStoreSettings?.fallbackProjectRoot;
+    if (!projectRoot) return undefined;
+
+    const projectPath = path.normalize(projectRoot);
+    const projectName = path.basename(projectPath);
+    if (instance && path.normalize(instance) !== projectPath && instance.toLowerCase() !== projectName.toLowerCase()) {
+      return undefined;
     }
+
+    const offline: UnityInstance = {
+      id: projectPath,
+      identified: true,
+      socket: null,
+      editorState: { ...this.createEmptyEditorState(), projectName, projectPath },
+      stateVersion: 0,
+      logBuffer: [],
+      logStore: null,
+      lastSequence: 0,
+      lastHeartbeat: 0,
+      connectionEstablished: false,
+      connectedAt: ''
+    };
+    const directory = this.getLogStoreDirectory(offline);
+    if (!directory) return undefined;
+
+    offline.logStore = this.openLogStore(directory);
+    offline.lastSequence = await offline.logStore.getLastSequence();
+    return offline;
+  }
+
+  private createEmptyEditorState(): UnityEditorState {
+    return {
+      activeGameObjects: [],
+      selectedObjects: [],
+      playModeState: 'Stopped',
+      sceneHierarchy: {}
+    };
+  }
+
+  private addLogEntry(instance: UnityInstance, logEntry: LogEntry) {
+    // Add to buffer, removing oldest if at capacity
+    instance.logBuffer.push(logEntry);
+    instance.lastSequence = Math.max(instance.lastSequence, logEntry.sequence ?? 0);
+    if (instance.logBuffer.length > this.maxLogBufferSize) {
+      instance.logBuffer.shift();
+    }
+    instance.logStore?.append(logEntry);
+  }
+
+  public async executeEditorCommand(code: string, timeoutMs: number = 5000, instance?: string): Promise<any> {
+    // Resolve up front so routing errors are reported without waiting in the queue
+    this.resolveInstance(instance);
+
+    return this.commandQueue.run(() =>
+      this.makeUnityRequest('executeEditorCommand', { code }, undefined, instance, timeoutMs)
+    );
   }
 
   // Return the current editor state - only used by tools, doesn't request updates
-  public getEditorState(): UnityEditorState {
-    return this.editorState;
+  public getEditorState(instance?: string): UnityEditorState {
+    return this.resolveInstance(instance).editorState;
+  }
+
+  // Whether an instance argument (registry key, project name or folder name) refers to the given instance id
+  public refersToInstance(instance: string, instanceId: string): boolean {
+    try {
+      return this.findInstance(instance)?.id === instanceId;
+    } catch {
+      return false;
+    }
   }
 
-  public getLogEntries(options: {
-    types?: string[],
+  public listInstances(): UnityInstanceInfo[] {
+    return [...this.instances.values()].map(instance => ({
+      id: instance.id,
+      projectName: instance.editorState.projectName,
+      projectPath: instance.editorState.projectPath,
+      unityVersion: instance.editorState.unityVersion,
+      currentScenePath: instance.editorState.currentScenePath,
+      playModeState: instance.editorState.playModeState,
+      connected: this.isInstanceConnected(instance),
+      connectedAt: instance.connectedAt,
+      lastHeartbeat: new Date(instance.lastHeartbeat).toISOString(),
+      logCount: instance.logBuffer.length,
+      persistedLogCount: instance.logStore?.entryCount,
+      logStorePath: instance.logStore?.directory
+    }));
+  }
+
+  public async getLogEntries(options: LogFilterOptions & {
     count?: number,
     fields?: string[],
-    messageContains?: string,
-    stackTraceContains?: string,
-    timestampAfter?: string,
-    timestampBefore?: string
-  } = {}): Partial<LogEntry>[] {
-    const {
-      types,
-      count = 100,
-      fields,
-      messageContains,
-      stackTraceContains,
-      timestampAfter,
-      timestampBefore
-    } = options;
+    includeStackFrames?: boolean,
+    sinceCursor?: string
+  } = {}, instance?: string): Promise<LogPage> {
+    const { count = 100, fields, includeStackFrames, sinceCursor, ...filters } = options;
+
+    const target = await this.resolveLogInstance(instance);
+    // Everything up to here is in the buffer/store; entries arriving during the query are newer
+    const latestSequence = target.lastSequence;
+
+    let afterSequence: number | undefined;
+    if (sinceCursor !== undefined) {
+      afterSequence = Number(sinceCursor);
+      if (!Number.isInteger(afterSequence) || afterSequence < 0) {
+        throw new Error(`Invalid cursor: ${sinceCursor}`);
+      }
+    }
 
-    // Apply all filters
-    let filteredLogs = this.filterLogs(types, messageContains, stackTraceContains, 
-                                     timestampAfter, timestampBefore);
+    // With a cursor, page forward from it (oldest first) so nothing is skipped;
+    // otherwise return the newest entries
+    const matched = await this.queryLogs(target, filters, count + 1, afterSequence);
+    const hasMore = matched.length > count;
+    let filteredLogs = afterSequence !== undefined ? matched.slice(0, count) : matched.slice(-count);
 
-    // Apply count limit
-    filteredLogs = filteredLogs.slice(-count);
+    const lastReturned = filteredLogs[filteredLogs.length - 1]?.sequence;
+    const nextCursor = afterSequence !== undefined && hasMore && lastReturned !== undefined
+      ? lastReturned
+      : Math.max(latestSequence, afterSequence ?? 0);
+
+    if (includeStackFrames) {
+      filteredLogs = filteredLogs.map(log => ({ ...log, frames: parseStackTrace(log.stackTrace) }));
+    }
 
     // Apply field selection if specified
-    if (fields?.length) {
-      return this.selectFields(filteredLogs, fields);
+    const logs = fields?.length
+      ? this.selectFields(filteredLogs, includeStackFrames ? [...fields, 'sequence', 'frames'] : [...fields, 'sequence'])
+      : filteredLogs;
+
+    return { logs, nextCursor: String(nextCursor), hasMore };
+  }
+
+  // Group repeated messages among the newest `count` matching entries
+  public async getLogSummary(options: LogFilterOptions & {
+    count?: number,
+    maxGroups?: number
+  } = {}, instance?: string): Promise<LogSummary> {
+    const { count = 1000, maxGroups = 50, ...filters } = options;
+      
+    const logs = await this.queryLogs(await this.resolveLogInstance(instance), filters, count);
+    return summarizeLogs(logs, maxGroups);
+  }
+      
+  // Entries matching the filters, oldest first: the newest `count` of them, or with
+  // afterSequence the first `count` entries after that sequence
+  private async queryLogs(
+    target: UnityInstance,
+    filters: LogFilterOptions,
+    count: number,
+    afterSequence?: number
+  ): Promise<LogEntry[]> {
+    const { includeHistory = true, ...criteria } = filters;
+    const matches = this.createLogFilter(criteria);
+      
+    if (includeHistory && target.logStore) {
+      // The store holds everything the live buffer does, plus earlier sessions
+      return target.logStore.query({
+        types: criteria.types,
+        timestampAfter: criteria.timestampAfter,
+        timestampBefore: criteria.timestampBefore,
+        afterSequence,
+        matches,
+        limit: count
+      });
+    }
+      
+    if (afterSequence !== undefined) {
+      return target.logBuffer
+        .filter(log => (log.sequence ?? 0) > afterSequence && matches(log))
+        .slice(0, count);
     }
 
-    return filteredLogs;
+    // Apply all filters, then the count limit
+    return target.logBuffer.filter(matches).slice(-count);
   }
 
-  private filterLogs(types?: string[], messageContains?: string, 
-                   stackTraceContains?: string, timestampAfter?: string, 
-                   timestampBefore?: string): LogEntry[] {
-    return this.logBuffer.filter(log => {
+  // Build the predicate once so regular expressions are compiled (and validated) a single time
+  private createLogFilter(filters: LogFilterOptions): (log: LogEntry) => boolean {
+    const {
+      types,
+      messageContains,
+      stackTraceContains,
+      timestampAfter,
+      timestampBefore,
+      excludeMessageContains
+    } = filters;
+    const messageRegex = this.compileLogRegex('messageMatches', filters.messageMatches);
+    const stackTraceRegex = this.compileLogRegex('stackTraceMatches', filters.stackTraceMatches);
+    const excludeRegex = this.compileLogRegex('excludeMessageMatches', filters.excludeMessageMatches);
+
+    return (log: LogEntry) => {
       // Type filter
       if (types && !types.includes(log.logType)) return false;
       
-      // Message content filter
+      // Message content filters
       if (messageContains && !log.message.includes(messageContains)) return false;
+      if (messageRegex && !messageRegex.test(log.message)) return false;
       
-      // Stack trace content filter
+      // Stack trace content filters
       if (stackTraceContains && !log.stackTrace.includes(stackTraceContains)) return false;
+      if (stackTraceRegex && !stackTraceRegex.test(log.stackTrace)) return false;
+      
+      // Exclusions
+      if (excludeMessageContains && log.message.includes(excludeMessageContains)) return false;
+      if (excludeRegex && excludeRegex.test(log.message)) return false;
       
       // Timestamp filters
       if (timestampAfter && new Date(log.timestamp) < new Date(timestampAfter)) return false;
       if (timestampBefore && new Date(log.timestamp) > new Date(timestampBefore)) return false;
       
       return true;
-    });
+    };
+  }
+
+  private compileLogRegex(name: string, pattern?: string): RegExp | undefined {
+    if (!pattern) return undefined;
+    try {
+      return new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`Invalid regular expression for ${name}: ${error instanceof Error ? error.message : error}`);
+    }
   }
 
   private selectFields(logs: LogEntry[], fields: string[]): Partial<LogEntry>[] {
     return logs.map(log => {
-      const selectedFields: Partial<LogEntry> = {};
+      const selectedFields: Record<string, unknown> = {};
       fields.forEach(field => {
         if (field in log) {
-          selectedFields[field as keyof LogEntry] = log[field as keyof LogEntry];
+          selectedFields[field] = log[field as keyof LogEntry];
         }
       });
-      return selectedFields;
+      return selectedFields as Partial<LogEntry>;
     });
   }
 
-  public isConnected(): boolean {
+  // Without an instance this reports whether any Unity Editor is connected
+  public isConnected(instance?: string): boolean {
+    if (instance) {
+      try {
+        const found = this.findInstance(instance);
+        return found !== undefined && this.isInstanceConnected(found);
+      } catch {
+        return false;
+      }
+    }
+
+    return [...this.instances.values()].some(candidate => this.isInstanceConnected(candidate));
+  }
+
+  private isInstanceConnected(instance: UnityInstance): boolean {
     // More robust connection check
-    if (this.unityConnection === null || this.unityConnection.readyState !== WebSocket.OPEN) {
+    if (instance.socket === null || instance.socket.readyState !== WebSocket.OPEN) {
       return false;
     }
     
     // Check if we've received messages from Unity recently
-    if (!this.connectionEstablished) {
+    if (!instance.connectionEstablished) {
       return false;
     }
     
     // Check if we've received a heartbeat in the last 60 seconds
     const heartbeatTimeout = 60000; // 60 seconds
-    if (Date.now() - this.lastHeartbeat > heartbeatTimeout) {
-      console.error('[Unity MCP] Connection may be stale - no recent communication');
+    if (Date.now() - instance.lastHeartbeat > heartbeatTimeout) {
+      console.error(`[Unity MCP] Connection to ${instance.id} may be stale - no recent communication`);
       return false;
     }
     
     return true;
   }
   
-  public requestEditorState() {
-    this.sendToUnity({
+  public requestEditorState(instance?: string) {
+    this.sendToUnity(this.resolveInstance(instance), {
       type: 'requestEditorState',
       data: {}
     });
   }
 
-  public async requestSceneInfo(detailLevel: string): Promise<any> {
-    return this.makeUnityRequest('getSceneInfo', { detailLevel }, 'sceneInfo');
+  public sendPlayModeCommand(action: PlayModeAction, instance?: string) {
+    this.sendToUnity(this.resolveInstance(instance), {
+      type: 'togglePlayMode',
+      data: { action }
+    });
+  }
+
+  // Ask the editor to import changes made to the project on disk
+  public refreshAssetDatabase(instance?: string) {
+    this.sendToUnity(this.resolveInstance(instance), {
+      type: 'refreshAssetDatabase',
+      data: {}
+    });
+  }
+
+  // Wait until Unity reports an editor state (newer than the current one) matching the predicate.
+  // Tolerates the editor dropping and re-establishing its connection, as it does on a domain reload.
+  public async waitForEditorState(
+    predicate: (state: UnityEditorState) => boolean,
+    timeoutMs: number = 30000,
+    instance?: string
+  ): Promise<UnityEditorState> {
+    const target = this.resolveInstance(instance);
+    const startVersion = target.stateVersion;
+    const deadline = Date.now() + timeoutMs;
+    let lastRequest = 0;
+
+    while (Date.now() < deadline) {
+      const current = this.instances.get(target.id) ?? target;
+
+      if (current.stateVersion > startVersion && predicate(current.editorState)) {
+        return current.editorState;
+      }
+
+      // Ask again periodically in case a pushed update was missed
+      if (Date.now() - lastRequest >= 1000 && this.isInstanceConnected(current)) {
+        this.sendToUnity(current, { type: 'requestEditorState', data: {} });
+        lastRequest = Date.now();
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+
+    const finalState = (this.instances.get(target.id) ?? target).editorState;
+    throw new Error(
+      `Timed out after ${timeoutMs/1000} seconds waiting for the editor state to change (last playModeState: ${finalState.playModeState})`
+    );
+  }
+
+  // Wait for the editor to compile scripts and, when that succeeds, reload its domain, then
+  // return the compiler diagnostics logged meanwhile. Compilation counts as started once the
+  // editor reports isCompiling, logs a compiler message or reconnects (the reload drops the
+  // connection); if none of that happens within startTimeoutMs the result is notStarted.
+  public async waitForCompilation(options: {
+    timeoutMs?: number,
+    startTimeoutMs?: number,
+    // Ask the editor to import changes on disk first, for when Auto Refresh is off
+    refresh?: boolean
+  } = {}, instance?: string): Promise<CompilationResult> {
+    const { timeoutMs = 120000, startTimeoutMs = 5000, refresh = false } = options;
+    const target = this.resolveInstance(instance);
+    const startSequence = target.lastSequence;
+    const startConnectedAt = target.connectedAt;
+    const startTime = Date.now();
+    let seenVersion = target.stateVersion;
+    let lastRequest = 0;
+    let started = false;
+    let finished = false;
+
+    if (refresh) {
+      this.sendToUnity(target, { type: 'refreshAssetDatabase', data: {} });
+    }
+
+    while (Date.now() - startTime < timeoutMs) {
+      const current = this.instances.get(target.id) ?? target;
+      const domainReloaded = current.connectedAt !== startConnectedAt;
+
+      if (current.stateVersion > seenVersion) {
+        seenVersion = current.stateVersion;
+        const { isCompiling, isUpdating } = current.editorState;
+        if (isCompiling) {
+          started = true;
+        } else if (!isUpdating && (started || domainReloaded || this.hasCompilerMessages(current, startSequence))) {
+          finished = true;
+          break;
+        }
+      }
+
+      if (!started && !domainReloaded && Date.now() - startTime >= startTimeoutMs) {
+        break;
+      }
+
+      // Ask again periodically in case a pushed update was missed
+      if (Date.now() - lastRequest >= 1000 && this.isInstanceConnected(current)) {
+        this.sendToUnity(current, { type: 'requestEditorState', data: {} });
+        lastRequest = Date.now();
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+
+    const current = this.instances.get(target.id) ?? target;
+    if (!finished && (started || current.connectedAt !== startConnectedAt)) {
+      throw new Error(`Timed out after ${timeoutMs/1000} seconds waiting for compilation to finish`);
+    }
+
+    const diagnostics = parseCompilerDiagnostics(await this.queryLogs(current, {}, 10000, startSequence));
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    return {
+      status: !finished ? 'notStarted' : errors.length > 0 ? 'failed' : 'succeeded',
+      durationMs: Date.now() - startTime,
+      domainReloaded: current.connectedAt !== startConnectedAt,
+      errors,
+      warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning')
+    };
+  }
+
+  private hasCompilerMessages(instance: UnityInstance, afterSequence: number): boolean {
+    const logs = instance.logBuffer.filter(log => (log.sequence ?? 0) > afterSequence);
+    return parseCompilerDiagnostics(logs).length > 0;
+  }
+
+  public async requestSceneInfo(detailLevel: string, instance?: string): Promise<any> {
+    return this.makeUnityRequest('getSceneInfo', { detailLevel }, 'sceneInfo', instance);
   }
   
-  public async requestGameObjectsInfo(instanceIDs: number[], detailLevel: string): Promise<any> {
-    return this.makeUnityRequest('getGameObjectsInfo', { instanceIDs, detailLevel }, 'gameObjectDetails');
+  public async requestGameObjectsInfo(instanceIDs: number[], detailLevel: string, instance?: string): Promise<any> {
+    return this.makeUnityRequest('getGameObjectsInfo', { instanceIDs, detailLevel }, 'gameObjectDetails', instance);
   }
 
-  private async makeUnityRequest(type: string, data: any, resultField: string): Promise<any> {
-    if (!this.isConnected()) {
-      throw new Error('Unity Editor is not connected');
+  public async getBuildScenes(instance?: string): Promise<BuildScenesMessage['data']> {
+    return this.makeUnityRequest('getBuildScenes', {}, undefined, instance);
+  }
+
+  // Replace the editor's build scene list; resolves with the list the editor ended up with
+  public async setBuildScenes(scenes: BuildSceneEntry[], instance?: string): Promise<BuildScenesMessage['data']> {
+    const result: BuildScenesMessage['data'] = await this.makeUnityRequest('setBuildScenes', { scenes }, undefined, instance);
+    if (result.error) {
+      throw new Error(`Unity Editor could not set the build scenes: ${result.error}`);
     }
+    return result;
+  }
+
+  // Replace the editor selection; resolves with BasicInfo details of the objects actually selected
+  public async setSelection(selection: {
+    instanceIDs?: number[],
+    paths?: string[],
+    ping?: boolean,
+    frame?: boolean
+  }, instance?: string): Promise<any> {
+    return this.makeUnityRequest('selectGameObject', { ...selection }, 'gameObjectDetails', instance);
+  }
+
+  private async makeUnityRequest(
+    type: string,
+    data: any,
+    resultField?: string,
+    instance?: string,
+    timeoutMs: number = 10000
+  ): Promise<any> {
+    const target = this.resolveInstance(instance);
     
     const requestId = crypto.randomUUID();
     data.requestId = requestId;
@@ -360,21 +917,27 @@ export class WebSocketHandler {
     const responsePromise = new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         delete this.pendingRequests[requestId];
-        reject(new Error(`Request for ${type} timed out`));
-      }, 10000); // 10 second timeout
+        reject(new Error(`Request for ${type} timed out after ${timeoutMs/1000} seconds`));
+      }, timeoutMs);
       
       this.pendingRequests[requestId] = {
         resolve: (data) => {
           clearTimeout(timeout);
-          resolve(data[resultField]);
+          delete this.pendingRequests[requestId];
+          resolve(resultField ? data[resultField] : data);
         },
-        reject,
-        type
+        reject: (reason) => {
+          clearTimeout(timeout);
+          delete this.pendingRequests[requestId];
+          reject(reason);
+        },
+        type,
+        socket: target.socket
       };
     });
     
     // Send the request to Unity
-    this.sendToUnity({
+    this.sendToUnity(target, {
       type,
       data
     });
@@ -383,12 +946,14 @@ export class WebSocketHandler {
   }
 
   // Support for file system tools by adding a method to send generic messages
-  public async sendMessage(message: string | object) {
-    if (this.unityConnection && this.unityConnection.readyState === WebSocket.OPEN) {
+  public async sendMessage(message: string | object, instance?: string) {
+    const target = this.resolveInstance(instance);
+    const socket = target.socket;
+    if (socket && socket.readyState === WebSocket.OPEN) {
       const messageStr = typeof message === 'string' ? message : JSON.stringify(message);
       
       return new Promise<void>((resolve, reject) => {
-        this.unityConnection!.send(messageStr, (err) => {
+        socket.send(messageStr, (err) => {
           if (err) {
             reject(err);
           } else {
@@ -401,13 +966,16 @@ export class WebSocketHandler {
   }
   
   public async close() {
-    if (this.unityConnection) {
-      try {
-        this.unityConnection.close();
-      } catch (error) {
-        console.error('[Unity MCP] Error closing Unity connection:', error);
+    for (const instance of this.instances.values()) {
+      await instance.logStore?.flush();
+      if (instance.socket) {
+        try {
+          instance.socket.close();
+        } catch (error) {
+          console.error('[Unity MCP] Error closing Unity connection:', error);
+        }
+        instance.socket = null;
       }
-      this.unityConnection = null;
     }
     
     return new Promise<void>((resolve) => {
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssemblyDefinitionInfo, AssemblyGraph, checkAssemblyGraph, findReferenceCycles } from '../src/assemblyDefinitions.js';
+
+function assembly(name: string, references: string[] = [], overrides: Partial<AssemblyDefinitionInfo> = {}): AssemblyDefinitionInfo {
+  return {
+    name,
+    path: `Assets/${name}/${name}.asmdef`,
+    source: 'assets',
+    references,
+    includePlatforms: [],
+    excludePlatforms: [],
+    defineConstraints: [],
+    autoReferenced: true,
+    editorOnly: false,
+    testAssembly: false,
+    ...overrides
+  };
+}
+
+function graph(assemblies: AssemblyDefinitionInfo[], packageCacheAvailable: boolean = true): AssemblyGraph {
+  return { assemblies, assemblyReferences: [], invalid: [], packageCacheAvailable };
+}
+
+test('findReferenceCycles reports each cycle once, starting from its first name', () => {
+  const cycles = findReferenceCycles(graph([
+    assembly('Game', ['Core', 'UI']),
+    assembly('UI', ['Game']),
+    assembly('Core', ['GUID:0123456789abcdef0123456789abcdef']),
+    assembly('Utils', ['Core'], { guid: '0123456789abcdef0123456789abcdef' }),
+    assembly('Tools', ['Tools'])
+  ]));
+  assert.deepEqual(cycles, [['Core', 'Utils'], ['Game', 'UI'], ['Tools']]);
+});
+
+test('findReferenceCycles finds nothing in an acyclic graph', () => {
+  assert.deepEqual(findReferenceCycles(graph([
+    assembly('Game', ['Core', 'Unity.InputSystem']),
+    assembly('Core'),
+    assembly('Game.Editor', ['Game', 'Core'], { editorOnly: true })
+  ])), []);
+});
+
+test('unresolved references are warnings that say why they could not be checked', () => {
+  const withoutCache = checkAssemblyGraph(graph([assembly('Game', ['Unity.InputSystem'])], false));
+  assert.deepEqual(withoutCache.map(issue => [issue.severity, issue.kind, issue.assembly]), [['warning', 'missingReference', 'Game']]);
+  assert.match(withoutCache[0].message, /package cache \(Library\/PackageCache\) was not available/);
+
+  const withCache = checkAssemblyGraph(graph([assembly('Game', ['Unity.InputSystem'])]));
+  assert.equal(withCache[0].severity, 'warning');
+  assert.match(withCache[0].message, /core package in the Unity installation/);
+});
+
+test('player assemblies referencing Editor-only ones are reported', () => {
+  const issues = checkAssemblyGraph(graph([
+    assembly('Game', ['Game.Editor']),
+    assembly('Game.Editor', [], { editorOnly: true }),
+    assembly('Game.Tests', ['Game.Editor'], { testAssembly: true })
+  ]));
+  assert.deepEqual(issues.map(issue => [issue.kind, issue.assembly]), [['editorReference', 'Game']]);
+});
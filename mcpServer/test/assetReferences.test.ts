@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractGuidReferences } from '../src/assetReferences.js';
+
+const SOURCE_PREFAB = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const MATERIAL = 'bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const SCRIPT = 'cccccccccccccccccccccccccccccccc';
+
+test('a serialized field named target is a reference', () => {
+  const content = [
+    '%YAML 1.1',
+    '--- !u!1 &1',
+    'GameObject:',
+    '  m_Name: Turret',
+    '--- !u!114 &2',
+    'MonoBehaviour:',
+    '  m_GameObject: {fileID: 1}',
+    `  m_Script: {fileID: 11500000, guid: ${SCRIPT}, type: 3}`,
+    `  target: {fileID: 2100000, guid: ${MATERIAL}, type: 2}`
+  ].join('\n');
+
+  const references = extractGuidReferences(content, 'Assets/Turret.prefab');
+  assert.deepEqual(references.map(ref => [ref.guid, ref.propertyPath, ref.gameObject]), [
+    [SCRIPT, 'm_Script', 'Turret'],
+    [MATERIAL, 'target', 'Turret']
+  ]);
+});
+
+test('prefab modifications report the overridden value, not their target', () => {
+  const content = [
+    '%YAML 1.1',
+    '--- !u!1001 &3',
+    'PrefabInstance:',
+    '  m_Modification:',
+    '    m_Modifications:',
+    `    - target: {fileID: 400000, guid: ${SOURCE_PREFAB}, type: 3}`,
+    '      propertyPath: m_Name',
+    '      value: Enemy',
+    '      objectReference: {fileID: 0}',
+    `    - target: {fileID: 2300000, guid: ${SOURCE_PREFAB}, type: 3}`,
+    '      propertyPath: m_Materials.Array.data[0]',
+    '      value:',
+    `      objectReference: {fileID: 2100000, guid: ${MATERIAL}, type: 2}`,
+    `  m_SourcePrefab: {fileID: 100100000, guid: ${SOURCE_PREFAB}, type: 3}`
+  ].join('\n');
+
+  const references = extractGuidReferences(content, 'Assets/Level.unity');
+  assert.deepEqual(references.map(ref => [ref.guid, ref.propertyPath]), [
+    [MATERIAL, 'm_Modification.m_Modifications[1] (m_Materials.Array.data[0])'],
+    [SOURCE_PREFAB, 'm_SourcePrefab']
+  ]);
+});
+
+test('.meta files only reference GUIDs under guid: keys', () => {
+  const content = [
+    'fileFormatVersion: 2',
+    'guid: dddddddddddddddddddddddddddddddd',
+    'TextureImporter:',
+    '  spriteSheet:',
+    '    sprites:',
+    '    - name: Idle_0',
+    '      spriteID: 5e97eb03825dee720800000000000000',
+    '    physicsShape: []',
+    '  spritePackingTag:',
+    '  pSDRemoveMatte: 0',
+    '  userData:',
+    'ScriptedImporter:',
+    `  script: {fileID: 11500000, guid: ${SCRIPT}, type: 3}`,
+    ''
+  ].join('\n');
+
+  assert.deepEqual(extractGuidReferences(content, 'Assets/Idle.png.meta'), [{ guid: SCRIPT, line: 13 }]);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import path from 'path';
+import { evaluateCommandPolicy, loadCommandPolicy } from '../src/commandPolicy.js';
+
+const NO_POLICY_FILE = path.join(os.tmpdir(), 'unity-mcp-tests', 'MCPCommandPolicy.json');
+
+async function evaluate(code: string, mode: string = 'confirm') {
+  return evaluateCommandPolicy(code, await loadCommandPolicy(NO_POLICY_FILE, mode));
+}
+
+test('code without risky APIs is allowed', async () => {
+  const result = await evaluate('Debug.Log(Selection.activeGameObject.name); // File.Delete in a comment');
+  assert.deepEqual(result, { action: 'allow', violations: [] });
+});
+
+test('the strictest action wins and violations carry their line', async () => {
+  const result = await evaluate('File.WriteAllText("a.txt", "x");\nFile . Delete("b.txt");');
+  assert.equal(result.action, 'confirm');
+  assert.deepEqual(result.violations.map(violation => [violation.line, violation.api, violation.action]), [
+    [1, 'File.WriteAllText', 'warn'],
+    [2, 'File.Delete', 'confirm']
+  ]);
+});
+
+test('a Process created through the imported namespace is flagged once per use', async () => {
+  const code = [
+    'using System.Diagnostics;',
+    'var p = new Process();',
+    'p.StartInfo.FileName = "cmd";',
+    'p.Start();',
+    'System.Diagnostics.Process.Start("notepad");'
+  ].join('\n');
+  const result = await evaluate(code);
+  assert.deepEqual(result.violations.map(violation => [violation.line, violation.api]), [
+    [2, 'Process'],
+    [5, 'System.Diagnostics.Process']
+  ]);
+});
+
+test('members of a statically imported type are flagged with their type', async () => {
+  const result = await evaluate('using static System.IO.File;\nDelete(path);\nWriteAllBytes(path, data);\nlist.Delete(1);');
+  assert.deepEqual(result.violations.map(violation => [violation.line, violation.api, violation.rule]), [
+    [2, 'File.Delete', 'file-delete'],
+    [3, 'File.WriteAllBytes', 'file-write']
+  ]);
+});
+
+test('allowed rules and APIs are skipped and mode off checks nothing', async () => {
+  const policy = await loadCommandPolicy(NO_POLICY_FILE, 'block');
+  const code = 'File.Delete(a); Directory.Delete(b); new UnityWebRequest(url);';
+  const result = evaluateCommandPolicy(code, { ...policy, allow: ['network', 'File.Delete'] });
+  assert.deepEqual(result.violations.map(violation => violation.api), ['Directory.Delete']);
+  assert.equal(result.action, 'block');
+  assert.equal((await evaluate(code, 'off')).action, 'allow');
+});
+
+test('code that mentions the policy file is blocked even when its APIs are allowed', async () => {
+  const policy = await loadCommandPolicy(NO_POLICY_FILE, 'warn');
+  const code = 'var path = Path.Combine(root, "mcpcommandpolicy.json");\nFile.WriteAllText(path, "{\\"mode\\": \\"off\\"}");';
+  const result = evaluateCommandPolicy(code, { ...policy, allow: ['file-write', 'policy-file'] });
+  assert.equal(result.action, 'block');
+  assert.deepEqual(result.violations.map(violation => [violation.line, violation.rule]), [[1, 'policy-file']]);
+});
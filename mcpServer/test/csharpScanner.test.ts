@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { scanCSharp } from '../src/csharpScanner.js';
+
+const WEAPON = `using UnityEngine;
+
+namespace Game.Combat
+{
+    // class Commented : MonoBehaviour {}
+    [RequireComponent(typeof(Rigidbody))]
+    public sealed class Weapon : MonoBehaviour, IDamageSource
+    {
+        [SerializeField] private float damage = 10f;
+        public int ammo;
+        private string label = "class Fake {";
+        [field: SerializeField] public float Range { get; private set; }
+
+        public event System.Action Fired;
+
+        public void Fire(Vector3 direction)
+        {
+            if (ammo > 0) { ammo--; }
+        }
+
+        public enum Mode { Single, Burst = 3 }
+    }
+
+    public interface IDamageSource { float Damage { get; } }
+
+    public delegate void HitHandler(GameObject target, float amount);
+}
+`;
+
+test('scanCSharp finds types with their namespace, nesting and line', () => {
+  const types = scanCSharp(WEAPON, 'Scripts/Weapon.cs');
+  assert.deepEqual(types.map(type => [type.kind, type.fullName, type.line, type.containingType]), [
+    ['class', 'Game.Combat.Weapon', 7, undefined],
+    ['enum', 'Game.Combat.Weapon.Mode', 21, 'Game.Combat.Weapon'],
+    ['interface', 'Game.Combat.IDamageSource', 24, undefined],
+    ['delegate', 'Game.Combat.HitHandler', 26, undefined]
+  ]);
+
+  const [weapon] = types;
+  assert.deepEqual(weapon.modifiers, ['public', 'sealed']);
+  assert.deepEqual(weapon.baseTypes, ['MonoBehaviour', 'IDamageSource']);
+  assert.deepEqual(weapon.attributes, ['RequireComponent']);
+  assert.equal(types[3].signature, 'public delegate void HitHandler(GameObject target, float amount)');
+});
+
+test('scanCSharp lists members and which fields Unity serializes', () => {
+  const [weapon, mode] = scanCSharp(WEAPON, 'Scripts/Weapon.cs');
+  assert.deepEqual(weapon.members.map(member => [member.kind, member.name, member.type, member.serialized ?? false]), [
+    ['field', 'damage', 'float', true],
+    ['field', 'ammo', 'int', true],
+    ['field', 'label', 'string', false],
+    ['property', 'Range', 'float', true],
+    ['event', 'Fired', 'System.Action', false],
+    ['method', 'Fire', 'void', false]
+  ]);
+  assert.deepEqual(mode.members.map(member => member.name), ['Single', 'Burst']);
+});
+
+test('scanCSharp ignores declarations in comments and strings', () => {
+  const types = scanCSharp('/* class Hidden {} */\nclass Shown { string s = @"struct Quoted {"; }', 'Shown.cs');
+  assert.deepEqual(types.map(type => [type.name, type.line]), [['Shown', 2]]);
+});
@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyPackageVersion, setManifestDependency } from '../src/packageManifest.js';
+
+const MANIFEST = `{
+  "dependencies": {
+    "com.unity.inputsystem": "1.7.0",
+    "com.unity.textmeshpro": "3.0.6"
+  },
+  "scopedRegistries": []
+}
+`;
+
+test('setManifestDependency inserts new packages in alphabetical order', () => {
+  assert.equal(setManifestDependency(MANIFEST, 'com.unity.cinemachine', '2.9.7'), `{
+  "dependencies": {
+    "com.unity.cinemachine": "2.9.7",
+    "com.unity.inputsystem": "1.7.0",
+    "com.unity.textmeshpro": "3.0.6"
+  },
+  "scopedRegistries": []
+}
+`);
+  assert.match(setManifestDependency(MANIFEST, 'com.unity.ugui', '1.0.0'), /"3\.0\.6",\n {4}"com\.unity\.ugui": "1\.0\.0"\n {2}\}/);
+});
+
+test('setManifestDependency changes and removes entries without touching the rest', () => {
+  assert.equal(setManifestDependency(MANIFEST, 'com.unity.textmeshpro', '3.2.0'), MANIFEST.replace('3.0.6', '3.2.0'));
+  assert.equal(setManifestDependency(MANIFEST, 'com.unity.textmeshpro', undefined),
+    MANIFEST.replace(',\n    "com.unity.textmeshpro": "3.0.6"', ''));
+  assert.equal(setManifestDependency(MANIFEST, 'com.unity.missing', undefined), MANIFEST);
+});
+
+test('setManifestDependency keeps CRLF line endings and tab indentation', () => {
+  const manifest = '{\r\n\t"dependencies": {}\r\n}\r\n';
+  assert.equal(setManifestDependency(manifest, 'com.unity.ugui', '1.0.0'),
+    '{\r\n\t"dependencies": {\r\n\t\t"com.unity.ugui": "1.0.0"\r\n\t}\r\n}\r\n');
+});
+
+test('setManifestDependency requires a dependencies object', () => {
+  assert.throws(() => setManifestDependency('{ "scopedRegistries": [] }', 'com.unity.ugui', '1.0.0'), /no "dependencies" object/);
+});
+
+test('classifyPackageVersion recognizes versions, Git URLs and file paths', () => {
+  assert.deepEqual(classifyPackageVersion('1.2.3-pre.1'), { kind: 'semver' });
+  assert.deepEqual(classifyPackageVersion('https://github.com/org/repo.git?path=/Packages/pkg#v1.0.0'), { kind: 'git' });
+  assert.deepEqual(classifyPackageVersion('git@github.com:org/repo.git'), { kind: 'git' });
+  assert.deepEqual(classifyPackageVersion('file:../LocalPackage'), { kind: 'file' });
+});
+
+test('classifyPackageVersion explains invalid values', () => {
+  assert.match(classifyPackageVersion('1.2').error!, /expected a semantic version/);
+  assert.match(classifyPackageVersion('https://github.com/org/repo').error!, /must end in \.git/);
+  assert.match(classifyPackageVersion('https://github.com/org/repo.git?branch=main').error!, /only \?path=/);
+  assert.match(classifyPackageVersion('file:').error!, /need a path/);
+});
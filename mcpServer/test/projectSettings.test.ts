@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readBuildScenes, writeBuildScenes } from '../src/projectSettings.js';
+
+const SETTINGS = [
+  '%YAML 1.1',
+  '%TAG !u! tag:unity3d.com,2011:',
+  '--- !u!1045 &1',
+  'EditorBuildSettings:',
+  '  m_ObjectHideFlags: 0',
+  '  serializedVersion: 2',
+  '  m_Scenes:',
+  '  - enabled: 1',
+  '    path: Assets/Scenes/Main.unity',
+  '    guid: 0123456789abcdef0123456789abcdef',
+  '  - enabled: 0',
+  '    path: Assets/Scenes/Old.unity',
+  '    guid: fedcba9876543210fedcba9876543210',
+  '  m_configObjects: {}',
+  ''
+].join('\r\n');
+
+test('writeBuildScenes replaces only the scene list', () => {
+  const written = writeBuildScenes(SETTINGS, [
+    { path: 'Assets/Scenes/Old.unity', enabled: true, guid: 'fedcba9876543210fedcba9876543210' },
+    { path: "Assets/My Levels/Level 'One'.unity", enabled: false }
+  ]);
+  assert.equal(written, [
+    ...SETTINGS.split('\r\n').slice(0, 7),
+    '  - enabled: 1',
+    '    path: Assets/Scenes/Old.unity',
+    '    guid: fedcba9876543210fedcba9876543210',
+    '  - enabled: 0',
+    "    path: 'Assets/My Levels/Level ''One''.unity'",
+    '  m_configObjects: {}',
+    ''
+  ].join('\r\n'));
+  assert.deepEqual(readBuildScenes(written).map(scene => [scene.path, scene.enabled]), [
+    ['Assets/Scenes/Old.unity', true],
+    ["Assets/My Levels/Level 'One'.unity", false]
+  ]);
+});
+
+test('writeBuildScenes writes an empty list inline and round-trips through readBuildScenes', () => {
+  const written = writeBuildScenes(SETTINGS, []);
+  assert.match(written, /\r\n {2}m_Scenes: \[\]\r\n {2}m_configObjects: \{\}/);
+  assert.deepEqual(readBuildScenes(written), []);
+  assert.deepEqual(readBuildScenes(SETTINGS).map(scene => scene.guid),
+    ['0123456789abcdef0123456789abcdef', 'fedcba9876543210fedcba9876543210']);
+});
+
+test('writeBuildScenes creates the settings file when there is none', () => {
+  const written = writeBuildScenes(undefined, [{ path: 'Assets/Main.unity', enabled: true }]);
+  assert.match(written, /^%YAML 1\.1\n/);
+  assert.deepEqual(readBuildScenes(written), [{ path: 'Assets/Main.unity', enabled: true, guid: undefined }]);
+});
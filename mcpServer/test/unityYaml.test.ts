@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseUnityYaml } from '../src/unityYaml.js';
+
+const PREFAB = [
+  '%YAML 1.1',
+  '%TAG !u! tag:unity3d.com,2011:',
+  '--- !u!1 &100100000',
+  'GameObject:',
+  '  m_ObjectHideFlags: 0',
+  '  m_Component:',
+  '  - component: {fileID: 400000}',
+  '  - component: {fileID: 11400000}',
+  "  m_Name: 'Player: One'",
+  '  m_IsActive: 1',
+  '--- !u!4 &400000',
+  'Transform:',
+  '  m_GameObject: {fileID: 100100000}',
+  '  m_LocalPosition: {x: 1.5, y: -2, z: 0}',
+  '  m_Children: []',
+  '--- !u!114 &11400000 stripped',
+  'MonoBehaviour:',
+  '  m_Script: {fileID: 11500000, guid: 0123456789abcdef0123456789abcdef, type: 3}',
+  ''
+].join('\r\n');
+
+test('parseUnityYaml splits documents and reads their headers', () => {
+  const documents = parseUnityYaml(PREFAB);
+  assert.deepEqual(documents.map(doc => [doc.classId, doc.fileID, doc.type, doc.stripped]), [
+    [1, '100100000', 'GameObject', false],
+    [4, '400000', 'Transform', false],
+    [114, '11400000', 'MonoBehaviour', true]
+  ]);
+});
+
+test('parseUnityYaml parses nested mappings, sequences and scalars', () => {
+  const [gameObject, transform, behaviour] = parseUnityYaml(PREFAB);
+  assert.deepEqual(gameObject.data.m_Component, [{ component: { fileID: 400000 } }, { component: { fileID: 11400000 } }]);
+  assert.equal(gameObject.data.m_Name, 'Player: One');
+  assert.deepEqual(transform.data.m_LocalPosition, { x: 1.5, y: -2, z: 0 });
+  assert.deepEqual(transform.data.m_Children, []);
+  assert.equal(behaviour.data.m_Script.guid, '0123456789abcdef0123456789abcdef');
+});
+
+test('parseUnityYaml rejects binary-serialized assets', () => {
+  assert.throws(() => parseUnityYaml('UnityFS\u0000\u0000binary'), /Force Text/);
+});